@@ -1,10 +1,12 @@
-import * as PIXI from 'pixi.js';
 import { Vector } from '../utils/vector';
+import { Random } from '../utils/random';
+import { World } from './World';
+import { FlockConfig, DEFAULT_FLOCK_CONFIG } from './FlockConfig';
+import { Relationship, RelationshipMatrix } from './Relationships';
 
-// Flocking parameters
-const PERCEPTION_RADIUS = 150;
-const SEPARATION_RADIUS = 40;
-const BOID_SIZE = 6; // Smaller size for better visibility
+// Weights for reacting to other species, relative to the flocking forces
+const AVOID_WEIGHT = 1.5;
+const CHASE_WEIGHT = 0.8;
 
 // Color definitions
 export enum BoidColor {
@@ -22,36 +24,32 @@ export enum BoidColor {
 
 export class Boid {
     position: Vector;
+    // Where the boid was before the last tick, for smoothing rendering between ticks
+    previousPosition: Vector;
     velocity: Vector;
     acceleration: Vector;
-    maxForce: number = 0.1;
-    maxSpeed: number = 3;
-    graphics?: PIXI.Graphics;
+    maxForce: number;
+    maxSpeed: number;
     rotation: number = 0;
     color: BoidColor;
+    config: FlockConfig;
 
-    constructor(x: number, y: number, color: BoidColor, container?: PIXI.Container) {
+    constructor(x: number, y: number, color: BoidColor, config: FlockConfig = DEFAULT_FLOCK_CONFIG, random?: Random) {
+        this.config = config;
+        this.maxForce = config.maxForce;
+        this.maxSpeed = config.maxSpeed;
         this.position = new Vector(x, y);
-        this.velocity = Vector.random2D();
+        this.previousPosition = new Vector(x, y);
+        this.velocity = Vector.random2D(random);
         this.velocity.setMag(this.maxSpeed);
         this.acceleration = new Vector(0, 0);
         this.color = color;
+    }
 
-        if (container) {
-            // Create visual representation as a triangle
-            this.graphics = new PIXI.Graphics();
-            this.graphics.beginFill(this.color);
-            // Draw an isometric triangle
-            this.graphics.moveTo(0, -BOID_SIZE); // Top point
-            this.graphics.lineTo(BOID_SIZE * 0.85, BOID_SIZE); // Bottom right
-            this.graphics.lineTo(-BOID_SIZE * 0.85, BOID_SIZE); // Bottom left
-            this.graphics.closePath();
-            this.graphics.endFill();
-            
-            this.graphics.x = x;
-            this.graphics.y = y;
-            container.addChild(this.graphics);
-        }
+    public setConfig(config: FlockConfig): void {
+        this.config = config;
+        this.maxForce = config.maxForce;
+        this.maxSpeed = config.maxSpeed;
     }
 
     get x(): number {
@@ -69,31 +67,7 @@ export class Boid {
         this.acceleration.add(force);
     }
 
-    private wrappedDistance(other: Boid): number {
-        // Early return if boids are far apart
-        const dx = Math.abs(this.position.x - other.position.x);
-        const dy = Math.abs(this.position.y - other.position.y);
-        
-        // If either distance is more than perception radius, they're definitely too far
-        if (dx > PERCEPTION_RADIUS || dy > PERCEPTION_RADIUS) {
-            return PERCEPTION_RADIUS + 1; // Return value that will be ignored by flocking
-        }
-
-        // Only calculate wrapped distance if boids are close enough
-        let wrappedDx = dx;
-        let wrappedDy = dy;
-
-        if (dx > window.innerWidth / 2) {
-            wrappedDx = window.innerWidth - dx;
-        }
-        if (dy > window.innerHeight / 2) {
-            wrappedDy = window.innerHeight - dy;
-        }
-
-        return Math.sqrt(wrappedDx * wrappedDx + wrappedDy * wrappedDy);
-    }
-
-    public flock(boids: Boid[]): void {
+    public flock(boids: Boid[], world: World, relationships: RelationshipMatrix): void {
         if (!Array.isArray(boids)) {
             throw new Error('Boids must be an array');
         }
@@ -101,7 +75,17 @@ export class Boid {
         const alignment = new Vector(0, 0);
         const cohesion = new Vector(0, 0);
         const separation = new Vector(0, 0);
+        const avoidance = new Vector(0, 0);
+        const perceptionRadius = this.config.perceptionRadius;
         let total = 0;
+        let avoiding = 0;
+        // Offset to the closest boid this one is chasing
+        let preyDistance = Infinity;
+        let preyX = 0;
+        let preyY = 0;
+        // Neighbors usually arrive grouped by color, so each relationship is looked up once per group
+        let relationshipColor: BoidColor | null = null;
+        let relationship: Relationship = 'ignore';
 
         for (const other of boids) {
             if (!(other instanceof Boid)) {
@@ -109,32 +93,51 @@ export class Boid {
                 continue;
             }
 
-            // Only consider boids of the same color
-            if (other.color !== this.color) continue;
+            if (other === this) continue;
 
-            const d = this.wrappedDistance(other);
-            if (other !== this && d < PERCEPTION_RADIUS) {
+            if (other.color !== relationshipColor) {
+                relationshipColor = other.color;
+                relationship = relationships.get(this.color, other.color);
+            }
+            if (relationship === 'ignore') continue;
+
+            // Boids near opposite edges are close across the wrap, if the world wraps.
+            // Plain numbers rather than Vectors, since this runs for every candidate every tick.
+            const dx = world.deltaX(this.position.x, other.position.x);
+            const dy = world.deltaY(this.position.y, other.position.y);
+
+            // If either distance is more than perception radius, they're definitely too far
+            if (Math.abs(dx) > perceptionRadius || Math.abs(dy) > perceptionRadius) continue;
+
+            const distanceSquared = dx * dx + dy * dy;
+            if (distanceSquared >= perceptionRadius * perceptionRadius) continue;
+            const d = Math.sqrt(distanceSquared);
+
+            if (relationship === 'avoid') {
+                // Flee harder from the ones that are closer
+                const factor = 1 / Math.max(distanceSquared, 0.1);
+                avoidance.x -= dx * factor;
+                avoidance.y -= dy * factor;
+                avoiding++;
+            } else if (relationship === 'chase') {
+                if (d < preyDistance) {
+                    preyDistance = d;
+                    preyX = dx;
+                    preyY = dy;
+                }
+            } else {
                 // Alignment - use the average velocity direction
                 alignment.add(other.velocity);
 
-                // Cohesion - calculate wrapped position
-                const wrappedPos = new Vector(other.position.x, other.position.y);
-                // Adjust position if it's on the other side of the screen
-                if (Math.abs(this.position.x - other.position.x) > window.innerWidth / 2) {
-                    wrappedPos.x += this.position.x > window.innerWidth / 2 ? -window.innerWidth : window.innerWidth;
-                }
-                if (Math.abs(this.position.y - other.position.y) > window.innerHeight / 2) {
-                    wrappedPos.y += this.position.y > window.innerHeight / 2 ? -window.innerHeight : window.innerHeight;
-                }
-                cohesion.add(wrappedPos);
+                // Cohesion - use the neighbor's position as seen from this side of the wrap
+                cohesion.x += this.position.x + dx;
+                cohesion.y += this.position.y + dy;
 
-                // Separation
-                if (d < SEPARATION_RADIUS) {
-                    const diff = this.position.copy().sub(wrappedPos);
-                    // Weight by distance
+                // Separation, weighted by distance
+                if (d < this.config.separationRadius) {
                     const factor = 1 / Math.max(d, 0.1);
-                    diff.mult(factor);
-                    separation.add(diff);
+                    separation.x -= dx * factor;
+                    separation.y -= dy * factor;
                 }
 
                 total++;
@@ -158,25 +161,37 @@ export class Boid {
             separation.limit(this.maxForce);
 
             // Apply forces with weights
-            const alignmentWeight = 0.3;
-            const cohesionWeight = 0.5;
-            const separationWeight = 1.0;
-
-            alignment.mult(alignmentWeight);
-            cohesion.mult(cohesionWeight);
-            separation.mult(separationWeight);
+            alignment.mult(this.config.alignmentWeight);
+            cohesion.mult(this.config.cohesionWeight);
+            separation.mult(this.config.separationWeight);
 
             this.applyForce(alignment);
             this.applyForce(cohesion);
             this.applyForce(separation);
         }
+
+        if (avoiding > 0) {
+            avoidance.setMag(this.maxSpeed);
+            avoidance.sub(this.velocity);
+            avoidance.limit(this.maxForce);
+            avoidance.mult(AVOID_WEIGHT);
+            this.applyForce(avoidance);
+        }
+
+        if (preyDistance < Infinity) {
+            // Steer straight at the nearest prey at full speed
+            const pursuit = new Vector(preyX, preyY).setMag(this.maxSpeed).sub(this.velocity);
+            pursuit.limit(this.maxForce);
+            pursuit.mult(CHASE_WEIGHT);
+            this.applyForce(pursuit);
+        }
     }
 
     public attractTo(point: Vector, strength: number = 0.05): void {
         if (!point) {
             throw new Error('Point is required for attraction');
         }
-        const force = this.position.copy().sub(point);
+        const force = point.copy().sub(this.position);
         force.limit(strength);
         this.applyForce(force);
     }
@@ -194,9 +209,13 @@ export class Boid {
         }
     }
 
-    public update(boids: Boid[]): void {
-        this.flock(boids);
+    // Returns false once the boid has left an open world and should be despawned
+    public update(boids: Boid[], world: World, relationships: RelationshipMatrix): boolean {
+        this.flock(boids, world, relationships);
         
+        this.previousPosition.x = this.position.x;
+        this.previousPosition.y = this.position.y;
+
         // Update velocity and position
         this.velocity.add(this.acceleration);
         this.velocity.limit(this.maxSpeed);
@@ -208,23 +227,8 @@ export class Boid {
         // Reset acceleration
         this.acceleration.mult(0);
         
-        // Wrap around screen edges
-        this.edges();
-    }
-
-    private edges(): void {
-        if (this.position.x < 0) this.position.x = window.innerWidth;
-        if (this.position.x > window.innerWidth) this.position.x = 0;
-        if (this.position.y < 0) this.position.y = window.innerHeight;
-        if (this.position.y > window.innerHeight) this.position.y = 0;
-
-        // Update graphics position if it exists
-        if (this.graphics) {
-            this.graphics.x = this.position.x;
-            this.graphics.y = this.position.y;
-            // Add PI/2 to align the triangle's point with the direction of movement
-            this.graphics.rotation = this.rotation + Math.PI/2;
-        }
+        // Wrap, bounce or leave at the world's edges
+        return world.constrain(this.position, this.velocity);
     }
 
     // Getters for position and velocity (useful for debugging and testing)
@@ -235,8 +239,4 @@ export class Boid {
     public getVelocity(): Vector {
         return this.velocity.copy();
     }
-
-    public getSprite(): PIXI.Graphics {
-        return this.graphics!;
-    }
 } 
\ No newline at end of file
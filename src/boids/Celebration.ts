@@ -0,0 +1,90 @@
+import { Boid } from './Boid';
+import { applyCircularFlow } from './flows';
+import { Vector } from '../utils/vector';
+
+// Phase timings in milliseconds
+const SWIRL_DURATION = 3500;
+const BURST_DURATION = 1000;
+const SETTLE_DURATION = 2000;
+
+// Speed limit while bursting, so boids can actually fly apart instead of being clamped
+const BURST_MAX_SPEED = 8;
+
+export type CelebrationPhase = 'swirl' | 'burst' | 'settle' | 'done';
+
+// Puzzle-solved effect: every color is drawn into one vortex around the center,
+// then thrown outward before the flock relaxes back to normal flocking
+export class Celebration {
+    private elapsed: number = 0;
+    private center: Vector;
+    private originalMaxSpeed: Map<Boid, number> = new Map();
+
+    constructor(center: Vector) {
+        this.center = center.copy();
+    }
+
+    public getPhase(): CelebrationPhase {
+        if (this.elapsed < SWIRL_DURATION) return 'swirl';
+        if (this.elapsed < SWIRL_DURATION + BURST_DURATION) return 'burst';
+        if (this.elapsed < SWIRL_DURATION + BURST_DURATION + SETTLE_DURATION) return 'settle';
+        return 'done';
+    }
+
+    // Advance by deltaMs and push the boids for the current phase
+    public update(boids: Boid[], deltaMs: number): void {
+        this.elapsed += deltaMs;
+
+        switch (this.getPhase()) {
+            case 'swirl':
+                boids.forEach(boid => this.swirl(boid));
+                break;
+            case 'burst':
+                boids.forEach(boid => this.burst(boid));
+                break;
+            case 'settle':
+            case 'done':
+                this.restoreSpeeds();
+                break;
+        }
+    }
+
+    // Put every boid back to its normal speed, e.g. when the effect is cut short
+    public finish(): void {
+        this.elapsed = Math.max(this.elapsed, SWIRL_DURATION + BURST_DURATION + SETTLE_DURATION);
+        this.restoreSpeeds();
+    }
+
+    private swirl(boid: Boid): void {
+        // Pull towards the center, harder the farther away the boid is
+        const pull = this.center.copy().sub(boid.position);
+        const distance = pull.mag();
+        pull.setMag(Math.min(distance / 2000, 0.15));
+        boid.applyForce(pull);
+
+        // All colors turn the same way so they read as a single vortex
+        applyCircularFlow(boid, this.center, {
+            radius: Infinity,
+            strength: 0.4,
+            falloff: 300,
+            direction: 1,
+        });
+    }
+
+    private burst(boid: Boid): void {
+        if (!this.originalMaxSpeed.has(boid)) {
+            this.originalMaxSpeed.set(boid, boid.maxSpeed);
+            boid.maxSpeed = BURST_MAX_SPEED;
+        }
+
+        const push = boid.position.copy().sub(this.center);
+        push.setMag(1);
+        boid.applyForce(push);
+    }
+
+    private restoreSpeeds(): void {
+        this.originalMaxSpeed.forEach((maxSpeed, boid) => {
+            boid.maxSpeed = maxSpeed;
+        });
+        this.originalMaxSpeed.clear();
+    }
+}
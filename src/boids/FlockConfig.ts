@@ -0,0 +1,122 @@
+import { BoidColor } from './Boid';
+
+// Tunable flocking behavior, set separately for each color group
+export type FlockConfig = {
+    // Neighbors farther than this are ignored
+    perceptionRadius: number;
+    // Neighbors closer than this are pushed away
+    separationRadius: number;
+    // Half the length of the drawn triangle
+    boidSize: number;
+    maxForce: number;
+    maxSpeed: number;
+    alignmentWeight: number;
+    cohesionWeight: number;
+    separationWeight: number;
+};
+
+export type FlockConfigKey = keyof FlockConfig;
+
+export const DEFAULT_FLOCK_CONFIG: FlockConfig = {
+    perceptionRadius: 150,
+    separationRadius: 40,
+    boidSize: 6,
+    maxForce: 0.1,
+    maxSpeed: 3,
+    alignmentWeight: 0.3,
+    cohesionWeight: 0.5,
+    separationWeight: 1.0,
+};
+
+// Slider ranges for the tuning panel, also used to reject out-of-range imports
+export const FLOCK_CONFIG_FIELDS: { key: FlockConfigKey; label: string; min: number; max: number; step: number }[] = [
+    { key: 'perceptionRadius', label: 'Perception', min: 10, max: 300, step: 5 },
+    { key: 'separationRadius', label: 'Separation radius', min: 0, max: 150, step: 1 },
+    { key: 'boidSize', label: 'Size', min: 2, max: 20, step: 0.5 },
+    { key: 'maxForce', label: 'Max force', min: 0, max: 1, step: 0.01 },
+    { key: 'maxSpeed', label: 'Max speed', min: 0.5, max: 10, step: 0.1 },
+    { key: 'alignmentWeight', label: 'Alignment', min: 0, max: 3, step: 0.05 },
+    { key: 'cohesionWeight', label: 'Cohesion', min: 0, max: 3, step: 0.05 },
+    { key: 'separationWeight', label: 'Separation', min: 0, max: 3, step: 0.05 },
+];
+
+export const FLOCK_CONFIG_PRESETS: Record<string, FlockConfig> = {
+    Default: DEFAULT_FLOCK_CONFIG,
+    // Tight, fast-moving groups that turn together
+    School: {
+        ...DEFAULT_FLOCK_CONFIG,
+        perceptionRadius: 100,
+        separationRadius: 20,
+        maxSpeed: 4,
+        alignmentWeight: 1.5,
+        cohesionWeight: 1.0,
+    },
+    // Loose, jittery clouds with little shared heading
+    Swarm: {
+        ...DEFAULT_FLOCK_CONFIG,
+        perceptionRadius: 60,
+        separationRadius: 15,
+        boidSize: 4,
+        maxForce: 0.3,
+        alignmentWeight: 0.05,
+        cohesionWeight: 1.2,
+    },
+    // Slow, widely spaced drifters
+    Drift: {
+        ...DEFAULT_FLOCK_CONFIG,
+        separationRadius: 80,
+        boidSize: 8,
+        maxForce: 0.03,
+        maxSpeed: 1.5,
+        separationWeight: 2.0,
+    },
+};
+
+// Config for every color, keyed by the color's name in JSON so exports stay readable
+export type FlockConfigs = Map<BoidColor, FlockConfig>;
+
+const CONFIG_VERSION = 1;
+
+export function serializeFlockConfigs(configs: FlockConfigs): string {
+    const colors: Record<string, FlockConfig> = {};
+    configs.forEach((config, color) => {
+        colors[BoidColor[color]] = config;
+    });
+    return JSON.stringify({ version: CONFIG_VERSION, colors }, null, 2);
+}
+
+// Parse exported configs, returning null for anything malformed. Colors left out keep their current config.
+export function parseFlockConfigs(text: string): FlockConfigs | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    if (typeof data !== 'object' || data === null) return null;
+
+    const { version, colors } = data as Record<string, unknown>;
+    if (version !== CONFIG_VERSION || typeof colors !== 'object' || colors === null) return null;
+
+    const configs: FlockConfigs = new Map();
+    for (const [name, value] of Object.entries(colors)) {
+        const color = BoidColor[name as keyof typeof BoidColor];
+        const config = parseFlockConfig(value);
+        if (color === undefined || !config) return null;
+        configs.set(color, config);
+    }
+    return configs;
+}
+
+// Check a single config, e.g. from an import or a recording, against the slider ranges
+export function parseFlockConfig(value: unknown): FlockConfig | null {
+    if (typeof value !== 'object' || value === null) return null;
+
+    const config = { ...DEFAULT_FLOCK_CONFIG };
+    for (const field of FLOCK_CONFIG_FIELDS) {
+        const number = (value as Record<string, unknown>)[field.key];
+        if (typeof number !== 'number' || !(number >= field.min && number <= field.max)) return null;
+        config[field.key] = number;
+    }
+    return config;
+}
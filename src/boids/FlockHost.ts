@@ -0,0 +1,485 @@
+import { FlockSimulation, FlockSimulationOptions, BOID_STRIDE } from './FlockSimulation';
+import { FlockSnapshot, SimulationCommand, SimulationEvent, SimulationInput } from './protocol';
+import { FlockRecording } from './FlockRecording';
+import { BoidColor } from './Boid';
+import { FlockConfig } from './FlockConfig';
+import { Relationship } from './Relationships';
+import { Obstacle } from './obstacles';
+
+// Main-thread handle on the flock, wherever the simulation actually runs
+export type FlockHost = {
+    // Called once a celebration has played out on its own
+    onCelebrationEnd: (() => void) | null;
+    // Called once a replay has finished and live input drives the flock again
+    onReplayEnd: (() => void) | null;
+    // Let deltaMs of real time pass; the simulation runs however many fixed ticks that covers
+    step(deltaMs: number): void;
+    // Latest state to draw, interpolated between ticks; only valid until the next step
+    getSnapshot(): FlockSnapshot;
+    setPaused(isPaused: boolean): void;
+    // Slow motion below 1
+    setTimeScale(timeScale: number): void;
+    // Run exactly one tick with the next step, e.g. while paused
+    stepOnce(): void;
+    setSize(width: number, height: number): void;
+    // Pointers are tracked by id so every touch pushes the flock on its own
+    setPointer(id: number, x: number, y: number): void;
+    removePointer(id: number): void;
+    // Interaction field the pointers apply, by registered name
+    setField(name: string): void;
+    // Add or move an obstacle by id
+    setObstacle(obstacle: Obstacle): void;
+    removeObstacle(id: number): void;
+    setConfig(color: BoidColor, config: FlockConfig): void;
+    // How boids of one color react to neighbors of another, e.g. to turn a color into a predator
+    setRelationship(from: BoidColor, to: BoidColor, relationship: Relationship): void;
+    celebrate(x: number, y: number): void;
+    stopCelebration(): void;
+    // Start a fresh, seeded flock and record every input it gets from the first tick
+    record(options: FlockSimulationOptions): void;
+    stopRecording(): Promise<FlockRecording | null>;
+    // Start over from a recording and play it back tick for tick
+    replay(recording: FlockRecording): void;
+    destroy(): void;
+};
+
+const EMPTY_SNAPSHOT: FlockSnapshot = { data: new Float32Array(0), count: 0, width: 0, height: 0, interpolation: 1 };
+
+// Copy a raw snapshot for drawing, blending each boid from its previous to its current position.
+// Boids that wrapped across an edge jump straight to their new position.
+function interpolateSnapshot(source: FlockSnapshot, target: Float32Array): FlockSnapshot {
+    const data = target.length === source.data.length ? target : new Float32Array(source.data.length);
+    data.set(source.data);
+
+    const t = source.interpolation;
+    for (let offset = 0; offset < source.count * BOID_STRIDE; offset += BOID_STRIDE) {
+        const dx = data[offset] - data[offset + 6];
+        const dy = data[offset + 1] - data[offset + 7];
+        if (Math.abs(dx) < source.width / 2 && Math.abs(dy) < source.height / 2) {
+            data[offset] = data[offset + 6] + dx * t;
+            data[offset + 1] = data[offset + 7] + dy * t;
+        }
+    }
+
+    return { ...source, data };
+}
+
+// Run the simulation in a worker when the browser supports it, otherwise on the main thread
+export function createFlockHost(options: FlockSimulationOptions): FlockHost {
+    if (typeof Worker !== 'undefined') {
+        try {
+            return new FailoverFlockHost(options);
+        } catch (error) {
+            console.warn('Could not start simulation worker, running on the main thread', error);
+        }
+    }
+    return new LocalFlockHost(options);
+}
+
+// Input setters shared by both hosts, which only differ in where an input goes
+abstract class BaseFlockHost {
+    public onCelebrationEnd: (() => void) | null = null;
+    public onReplayEnd: (() => void) | null = null;
+
+    protected abstract input(input: SimulationInput): void;
+
+    public setSize(width: number, height: number): void {
+        this.input({ type: 'resize', width, height });
+    }
+
+    public setPointer(id: number, x: number, y: number): void {
+        this.input({ type: 'pointer', id, x, y });
+    }
+
+    public removePointer(id: number): void {
+        this.input({ type: 'pointerEnd', id });
+    }
+
+    public setField(name: string): void {
+        this.input({ type: 'field', name });
+    }
+
+    public setObstacle(obstacle: Obstacle): void {
+        this.input({ type: 'obstacle', obstacle });
+    }
+
+    public removeObstacle(id: number): void {
+        this.input({ type: 'removeObstacle', id });
+    }
+
+    public setConfig(color: BoidColor, config: FlockConfig): void {
+        this.input({ type: 'config', color, config });
+    }
+
+    public setRelationship(from: BoidColor, to: BoidColor, relationship: Relationship): void {
+        this.input({ type: 'relationship', from, to, relationship });
+    }
+
+    public celebrate(x: number, y: number): void {
+        this.input({ type: 'celebrate', x, y });
+    }
+
+    public stopCelebration(): void {
+        this.input({ type: 'stopCelebration' });
+    }
+}
+
+// Steps the flock in a worker; snapshots come back as transferred buffers that are handed
+// back once copied out, so the two threads trade a small pool instead of allocating
+class WorkerFlockHost extends BaseFlockHost implements FlockHost {
+    // Called once the worker has failed; it is terminated and sends nothing further
+    public onError: (() => void) | null = null;
+    private worker: Worker;
+    private snapshot: FlockSnapshot = EMPTY_SNAPSHOT;
+    private isStepPending: boolean = true; // The worker answers init with a first snapshot
+    private pendingDeltaMs: number = 0;
+    private pendingTicks: number = 0;
+    private recordingRequests: ((recording: FlockRecording | null) => void)[] = [];
+
+    constructor(options: FlockSimulationOptions) {
+        super();
+        this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+        this.worker.onmessage = (e: MessageEvent<SimulationEvent>) => this.handleEvent(e.data);
+        this.worker.onerror = (e: ErrorEvent) => {
+            console.error('Simulation worker failed', e.message);
+            this.worker.terminate();
+            this.onError?.();
+        };
+        this.post({ type: 'init', options });
+    }
+
+    public step(deltaMs: number): void {
+        // Never queue up steps behind a slow worker; fold the time into the next one instead
+        this.pendingDeltaMs += deltaMs;
+        if (this.isStepPending) return;
+
+        this.isStepPending = true;
+        this.post({ type: 'step', deltaMs: this.pendingDeltaMs, ticks: this.pendingTicks });
+        this.pendingDeltaMs = 0;
+        this.pendingTicks = 0;
+    }
+
+    public getSnapshot(): FlockSnapshot {
+        return this.snapshot;
+    }
+
+    public setPaused(isPaused: boolean): void {
+        this.post({ type: 'pause', paused: isPaused });
+    }
+
+    public setTimeScale(timeScale: number): void {
+        this.post({ type: 'timeScale', timeScale });
+    }
+
+    public stepOnce(): void {
+        this.pendingTicks++;
+    }
+
+    public record(options: FlockSimulationOptions): void {
+        this.post({ type: 'record', options });
+    }
+
+    public stopRecording(): Promise<FlockRecording | null> {
+        return new Promise(resolve => {
+            this.recordingRequests.push(resolve);
+            this.post({ type: 'stopRecording' });
+        });
+    }
+
+    public replay(recording: FlockRecording): void {
+        this.post({ type: 'replay', recording });
+    }
+
+    public destroy(): void {
+        this.worker.terminate();
+        this.onError = null;
+        this.onCelebrationEnd = null;
+        this.onReplayEnd = null;
+        this.snapshot = EMPTY_SNAPSHOT;
+        this.recordingRequests.forEach(resolve => resolve(null));
+        this.recordingRequests = [];
+    }
+
+    protected input(input: SimulationInput): void {
+        this.post(input);
+    }
+
+    private handleEvent(event: SimulationEvent): void {
+        switch (event.type) {
+            case 'snapshot': {
+                const { buffer, count, width, height, interpolation } = event;
+                this.snapshot = interpolateSnapshot(
+                    { data: new Float32Array(buffer), count, width, height, interpolation },
+                    this.snapshot.data
+                );
+                this.isStepPending = false;
+                this.post({ type: 'release', buffer }, [buffer]);
+                break;
+            }
+            case 'celebrationEnd':
+                this.onCelebrationEnd?.();
+                break;
+            case 'recording':
+                this.recordingRequests.shift()?.(event.recording);
+                break;
+            case 'replayEnd':
+                this.onReplayEnd?.();
+                break;
+        }
+    }
+
+    private post(command: SimulationCommand, transfer: Transferable[] = []): void {
+        this.worker.postMessage(command, transfer);
+    }
+}
+
+// Same simulation stepped synchronously, for environments without workers
+class LocalFlockHost extends BaseFlockHost implements FlockHost {
+    private simulation: FlockSimulation;
+    private raw: FlockSnapshot;
+    private snapshot: FlockSnapshot = EMPTY_SNAPSHOT;
+
+    constructor(options: FlockSimulationOptions) {
+        super();
+        this.simulation = this.start(new FlockSimulation(options));
+        this.raw = { ...EMPTY_SNAPSHOT };
+        this.updateSnapshot();
+    }
+
+    public step(deltaMs: number): void {
+        this.simulation.advance(deltaMs);
+        this.updateSnapshot();
+    }
+
+    public getSnapshot(): FlockSnapshot {
+        return this.snapshot;
+    }
+
+    public setPaused(isPaused: boolean): void {
+        this.simulation.setPaused(isPaused);
+    }
+
+    public setTimeScale(timeScale: number): void {
+        this.simulation.setTimeScale(timeScale);
+    }
+
+    public stepOnce(): void {
+        this.simulation.tick();
+        this.updateSnapshot();
+    }
+
+    public record(options: FlockSimulationOptions): void {
+        this.start(new FlockSimulation(options)).startRecording();
+    }
+
+    public stopRecording(): Promise<FlockRecording | null> {
+        return Promise.resolve(this.simulation.stopRecording());
+    }
+
+    public replay(recording: FlockRecording): void {
+        // A recording that can't be rebuilt leaves the current flock running
+        try {
+            this.start(FlockSimulation.fromRecording(recording));
+        } catch (error) {
+            console.warn('Could not replay recording', error);
+        }
+    }
+
+    public destroy(): void {
+        this.simulation.onCelebrationEnd = null;
+        this.simulation.onReplayEnd = null;
+        this.onCelebrationEnd = null;
+        this.onReplayEnd = null;
+    }
+
+    protected input(input: SimulationInput): void {
+        this.simulation.apply(input);
+    }
+
+    // Swap in a new flock, keeping pause and slow motion as they were
+    private start(next: FlockSimulation): FlockSimulation {
+        next.onCelebrationEnd = () => this.onCelebrationEnd?.();
+        next.onReplayEnd = () => this.onReplayEnd?.();
+        this.simulation?.copyClockTo(next);
+        this.simulation = next;
+        return next;
+    }
+
+    private updateSnapshot(): void {
+        // A replayed recording may have a different population
+        const count = this.simulation.getBoidCount();
+        if (this.raw.count !== count) {
+            this.raw.data = new Float32Array(count * BOID_STRIDE);
+            this.raw.count = count;
+        }
+
+        const world = this.simulation.getWorld();
+        this.simulation.writeSnapshot(this.raw.data);
+        this.raw.width = world.getWidth();
+        this.raw.height = world.getHeight();
+        this.raw.interpolation = this.simulation.getInterpolation();
+        this.snapshot = interpolateSnapshot(this.raw, this.snapshot.data);
+    }
+}
+
+// Starts in a worker and carries on with a flock on the main thread if the worker fails,
+// handing over every setting it has been given so far. The fallback starts a fresh flock;
+// a recording in progress is lost and a running celebration ends.
+class FailoverFlockHost extends BaseFlockHost implements FlockHost {
+    private host: FlockHost;
+    private options: FlockSimulationOptions;
+    // Latest input of each kind that lasts, keyed so that a newer one replaces it
+    private settings: Map<string, SimulationInput> = new Map();
+    private isPaused: boolean = false;
+    private timeScale: number = 1;
+    // A celebration that has started and not yet ended, which the fallback can't pick up
+    private isCelebrating: boolean = false;
+
+    constructor(options: FlockSimulationOptions) {
+        super();
+        this.options = options;
+        const worker = new WorkerFlockHost(options);
+        worker.onError = () => this.fallBack();
+        this.host = this.attach(worker);
+    }
+
+    public step(deltaMs: number): void {
+        this.host.step(deltaMs);
+    }
+
+    public getSnapshot(): FlockSnapshot {
+        return this.host.getSnapshot();
+    }
+
+    public setPaused(isPaused: boolean): void {
+        this.isPaused = isPaused;
+        this.host.setPaused(isPaused);
+    }
+
+    public setTimeScale(timeScale: number): void {
+        this.timeScale = timeScale;
+        this.host.setTimeScale(timeScale);
+    }
+
+    public stepOnce(): void {
+        this.host.stepOnce();
+    }
+
+    public record(options: FlockSimulationOptions): void {
+        this.options = options;
+        this.host.record(options);
+    }
+
+    public stopRecording(): Promise<FlockRecording | null> {
+        return this.host.stopRecording();
+    }
+
+    public replay(recording: FlockRecording): void {
+        this.host.replay(recording);
+    }
+
+    public destroy(): void {
+        this.host.destroy();
+        this.onCelebrationEnd = null;
+        this.onReplayEnd = null;
+    }
+
+    protected input(input: SimulationInput): void {
+        if (input.type === 'celebrate') {
+            this.isCelebrating = true;
+        } else if (input.type === 'stopCelebration') {
+            this.isCelebrating = false;
+        }
+
+        const key = getSettingKey(input);
+        if (input.type === 'removeObstacle' || input.type === 'pointerEnd') {
+            this.settings.delete(key);
+        } else if (key) {
+            this.settings.set(key, input);
+        }
+        this.apply(this.host, input);
+    }
+
+    private fallBack(): void {
+        console.warn('Running the simulation on the main thread instead');
+        // Also resolves any recording request the worker can no longer answer
+        this.host.destroy();
+        const local = this.attach(new LocalFlockHost(this.options));
+        local.setPaused(this.isPaused);
+        local.setTimeScale(this.timeScale);
+        this.settings.forEach(input => this.apply(local, input));
+        this.host = local;
+
+        // The fresh flock isn't celebrating, so end the celebration for whoever is waiting on it
+        if (this.isCelebrating) {
+            this.isCelebrating = false;
+            this.onCelebrationEnd?.();
+        }
+    }
+
+    private attach<T extends FlockHost>(host: T): T {
+        host.onCelebrationEnd = () => {
+            this.isCelebrating = false;
+            this.onCelebrationEnd?.();
+        };
+        host.onReplayEnd = () => this.onReplayEnd?.();
+        return host;
+    }
+
+    private apply(host: FlockHost, input: SimulationInput): void {
+        switch (input.type) {
+            case 'resize':
+                host.setSize(input.width, input.height);
+                break;
+            case 'pointer':
+                host.setPointer(input.id, input.x, input.y);
+                break;
+            case 'pointerEnd':
+                host.removePointer(input.id);
+                break;
+            case 'field':
+                host.setField(input.name);
+                break;
+            case 'obstacle':
+                host.setObstacle(input.obstacle);
+                break;
+            case 'removeObstacle':
+                host.removeObstacle(input.id);
+                break;
+            case 'config':
+                host.setConfig(input.color, input.config);
+                break;
+            case 'relationship':
+                host.setRelationship(input.from, input.to, input.relationship);
+                break;
+            case 'celebrate':
+                host.celebrate(input.x, input.y);
+                break;
+            case 'stopCelebration':
+                host.stopCelebration();
+                break;
+        }
+    }
+}
+
+// Which setting an input replaces, or an empty key for one-off inputs like a celebration
+function getSettingKey(input: SimulationInput): string {
+    switch (input.type) {
+        case 'resize':
+        case 'field':
+            return input.type;
+        case 'pointer':
+        case 'pointerEnd':
+            return `pointer:${input.id}`;
+        case 'obstacle':
+            return `obstacle:${input.obstacle.id}`;
+        case 'removeObstacle':
+            return `obstacle:${input.id}`;
+        case 'config':
+            return `config:${input.color}`;
+        case 'relationship':
+            return `relationship:${input.from}:${input.to}`;
+        default:
+            return '';
+    }
+}
@@ -0,0 +1,142 @@
+import { FlockSimulationOptions } from './FlockSimulation';
+import { SimulationInput } from './protocol';
+import { BoidColor } from './Boid';
+import { parseFlockConfig } from './FlockConfig';
+import { RELATIONSHIPS, Relationship } from './Relationships';
+import { getField } from './fields';
+import { TOPOLOGIES, Topology } from './World';
+
+const RECORDING_VERSION = 1;
+
+// Largest flock a recording may ask for, the most the simulation is built to keep up with
+const MAX_BOIDS_PER_COLOR = 500;
+
+export type RecordedInput = {
+    tick: number;
+    input: SimulationInput;
+};
+
+// A seeded flock plus every input it received, which together reproduce the run tick for tick
+export type FlockRecording = {
+    version: number;
+    // Always includes the seed the flock started from
+    options: FlockSimulationOptions & { seed: number };
+    // Length of the run
+    ticks: number;
+    inputs: RecordedInput[];
+};
+
+export function createRecording(options: FlockSimulationOptions & { seed: number }): FlockRecording {
+    return { version: RECORDING_VERSION, options, ticks: 0, inputs: [] };
+}
+
+export function serializeRecording(recording: FlockRecording): string {
+    return JSON.stringify(recording);
+}
+
+// Parse an exported recording, returning null for anything malformed or from another version.
+// Every input is checked too, since the replay would otherwise trip over a bad one mid-run.
+export function parseRecording(text: string): FlockRecording | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    if (typeof data !== 'object' || data === null) return null;
+
+    const { version, options, ticks, inputs } = data as Record<string, unknown>;
+    if (version !== RECORDING_VERSION) return null;
+    if (typeof options !== 'object' || options === null) return null;
+
+    const { width, height, boidsPerColor, seed, topology, field, configs, relationships } = options as Record<string, unknown>;
+    if (typeof width !== 'number' || !(width > 0) || typeof height !== 'number' || !(height > 0)) return null;
+    if (!isCount(boidsPerColor) || boidsPerColor > MAX_BOIDS_PER_COLOR) return null;
+    if (!isCount(seed) || !isCount(ticks)) return null;
+    if (topology !== undefined && !TOPOLOGIES.includes(topology as Topology)) return null;
+    if (field !== undefined && (typeof field !== 'string' || getField(field) === undefined)) return null;
+    if (configs !== undefined && !(Array.isArray(configs) && configs.every(isColorConfig))) return null;
+    if (relationships !== undefined && !(Array.isArray(relationships) && relationships.every(isRelationshipRule))) return null;
+    if (!Array.isArray(inputs) || !inputs.every(isRecordedInput)) return null;
+
+    return data as FlockRecording;
+}
+
+function isRecordedInput(value: unknown): value is RecordedInput {
+    if (typeof value !== 'object' || value === null) return false;
+    const { tick, input } = value as Record<string, unknown>;
+    return isCount(tick) && isSimulationInput(input);
+}
+
+// Whether a value is an input the simulation would accept, with every field in range
+function isSimulationInput(value: unknown): value is SimulationInput {
+    if (typeof value !== 'object' || value === null) return false;
+    const input = value as Record<string, unknown>;
+
+    switch (input.type) {
+        case 'resize':
+            return isPositive(input.width) && isPositive(input.height);
+        case 'pointer':
+            return Number.isInteger(input.id) && isNumber(input.x) && isNumber(input.y);
+        case 'pointerEnd':
+        case 'removeObstacle':
+            return Number.isInteger(input.id);
+        case 'field':
+            return typeof input.name === 'string' && getField(input.name) !== undefined;
+        case 'obstacle':
+            return isObstacle(input.obstacle);
+        case 'config':
+            return isColorConfig(input);
+        case 'relationship':
+            return isRelationshipRule(input);
+        case 'celebrate':
+            return isNumber(input.x) && isNumber(input.y);
+        case 'stopCelebration':
+            return true;
+        default:
+            return false;
+    }
+}
+
+// A color with its config, as in the options' configs or a config input
+function isColorConfig(value: unknown): boolean {
+    if (typeof value !== 'object' || value === null) return false;
+    const { color, config } = value as Record<string, unknown>;
+    return isColor(color) && parseFlockConfig(config) !== null;
+}
+
+// How one color reacts to another, as in the options' relationships or a relationship input
+function isRelationshipRule(value: unknown): boolean {
+    if (typeof value !== 'object' || value === null) return false;
+    const { from, to, relationship } = value as Record<string, unknown>;
+    return isColor(from) && isColor(to) && RELATIONSHIPS.includes(relationship as Relationship);
+}
+
+function isObstacle(value: unknown): boolean {
+    if (typeof value !== 'object' || value === null) return false;
+    const obstacle = value as Record<string, unknown>;
+    if (!Number.isInteger(obstacle.id) || !isNumber(obstacle.vx) || !isNumber(obstacle.vy)) return false;
+    if (!isNumber(obstacle.x) || !isNumber(obstacle.y)) return false;
+
+    if (obstacle.shape === 'rect') {
+        return isNumber(obstacle.width) && isNumber(obstacle.height) &&
+            (obstacle.width as number) >= 0 && (obstacle.height as number) >= 0;
+    }
+    return obstacle.shape === 'circle' && isPositive(obstacle.radius);
+}
+
+function isColor(value: unknown): value is BoidColor {
+    return typeof value === 'number' && BoidColor[value] !== undefined;
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPositive(value: unknown): value is number {
+    return isNumber(value) && value > 0;
+}
+
+function isCount(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) >= 0;
+}
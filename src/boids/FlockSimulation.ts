@@ -0,0 +1,442 @@
+import { Boid, BoidColor } from './Boid';
+import { FlockConfig, DEFAULT_FLOCK_CONFIG } from './FlockConfig';
+import { World, Topology } from './World';
+import { RelationshipMatrix, Relationship, RelationshipRule } from './Relationships';
+import { SpatialHash } from './SpatialHash';
+import { Celebration } from './Celebration';
+import { FieldSource, DEFAULT_FIELD, getField } from './fields';
+import { Obstacle, applyObstacle } from './obstacles';
+import { SimulationInput } from './protocol';
+import { FlockRecording, createRecording } from './FlockRecording';
+import { Vector } from '../utils/vector';
+import { Random } from '../utils/random';
+
+// Floats per boid in a snapshot: x, y, vx, vy, color, size, previous x, previous y
+export const BOID_STRIDE = 8;
+
+// The flock always moves in ticks of this length, whatever the display's frame rate
+export const TICK_MS = 1000 / 60;
+
+// After a long stall (e.g. a background tab) drop the backlog instead of fast-forwarding through it
+const MAX_TICKS_PER_ADVANCE = 5;
+
+// Flockmates a boid steers by at most. In a dense flock an even sample of the candidates stands
+// in for the rest, which keeps each tick's cost flat as the flock bunches up.
+const MAX_FLOCKMATES = 16;
+
+// Speeds offered for watching the flock in slow motion
+export const TIME_SCALES = [0.1, 0.25, 0.5, 1];
+
+export const BOID_COLORS: BoidColor[] = [
+    BoidColor.PINK,
+    BoidColor.BLUE,
+    BoidColor.GREEN,
+    BoidColor.PURPLE,
+    BoidColor.ORANGE,
+    BoidColor.CYAN,
+    BoidColor.RED,
+    BoidColor.YELLOW,
+    BoidColor.MAGENTA,
+    BoidColor.TEAL
+];
+
+export type FlockSimulationOptions = {
+    width: number;
+    height: number;
+    boidsPerColor: number;
+    topology?: Topology;
+    relationships?: RelationshipRule[];
+    configs?: { color: BoidColor; config: FlockConfig }[];
+    field?: string;
+    // Same seed and same inputs give the same flock; a random one is picked when left out
+    seed?: number;
+};
+
+// The whole flock and everything that pushes it around, independent of rendering
+// so it can run on the main thread or inside a worker
+export class FlockSimulation {
+    private boids: Map<BoidColor, Boid[]> = new Map();
+    private configs: Map<BoidColor, FlockConfig> = new Map();
+    private allBoids: Boid[] = [];
+    private relationships: RelationshipMatrix;
+    // One index per color, so a boid only looks through the colors it reacts to
+    private spatialHashes: Map<BoidColor, SpatialHash<Boid>> = new Map();
+    // Per color, the hashes of the colors it avoids or chases and of those it flocks with,
+    // updated whenever relationships or hashes change rather than every tick
+    private neighborHashes: Map<BoidColor, { reactive: SpatialHash<Boid>[]; flocking: SpatialHash<Boid>[] }> = new Map();
+    private neighbors: Boid[] = []; // Reused for every neighbor query to avoid allocating per boid
+    private world: World;
+    // Every active pointer or touch, each its own field source
+    private pointers: Map<number, FieldSource> = new Map();
+    private fieldName: string = DEFAULT_FIELD;
+    private celebration: Celebration | null = null;
+    private boidCount: number = 0;
+    // Time banked towards the next tick
+    private accumulator: number = 0;
+    private isPaused: boolean = false;
+    private timeScale: number = 1;
+    // All simulation randomness comes from here so a seed reproduces the run
+    private random: Random;
+    private options: FlockSimulationOptions & { seed: number };
+    private tickCount: number = 0;
+    private recording: FlockRecording | null = null;
+    private replay: { recording: FlockRecording; index: number } | null = null;
+
+    // Called once a celebration has played out on its own
+    public onCelebrationEnd: (() => void) | null = null;
+    // Called once a replay has run out of recorded ticks and the flock takes live input again
+    public onReplayEnd: (() => void) | null = null;
+
+    constructor(options: FlockSimulationOptions) {
+        this.options = { ...options, seed: options.seed ?? Random.randomSeed() };
+        this.random = new Random(this.options.seed);
+        this.world = new World(options.width, options.height, options.topology);
+        this.relationships = new RelationshipMatrix(options.relationships);
+
+        // Initialize boids for each color
+        BOID_COLORS.forEach(color => {
+            const colorBoids: Boid[] = [];
+            for (let i = 0; i < options.boidsPerColor; i++) {
+                colorBoids.push(new Boid(
+                    this.random.next() * options.width,
+                    this.random.next() * options.height,
+                    color,
+                    DEFAULT_FLOCK_CONFIG,
+                    this.random
+                ));
+            }
+            this.boids.set(color, colorBoids);
+            this.configs.set(color, DEFAULT_FLOCK_CONFIG);
+            this.spatialHashes.set(color, new SpatialHash(DEFAULT_FLOCK_CONFIG.perceptionRadius));
+            this.allBoids.push(...colorBoids);
+        });
+        this.boidCount = this.allBoids.length;
+        this.updateNeighborHashes();
+
+        options.configs?.forEach(({ color, config }) => this.setConfig(color, config));
+        if (options.field) this.setField(options.field);
+    }
+
+    // A flock that plays back a recording, ignoring live input until the recording runs out
+    static fromRecording(recording: FlockRecording): FlockSimulation {
+        const simulation = new FlockSimulation(recording.options);
+        simulation.replay = { recording, index: 0 };
+        return simulation;
+    }
+
+    public getSeed(): number {
+        return this.options.seed;
+    }
+
+    public isReplaying(): boolean {
+        return this.replay !== null;
+    }
+
+    // Start logging inputs. Only a flock that hasn't ticked yet can be reproduced from its seed.
+    public startRecording(): void {
+        if (this.tickCount !== 0) {
+            throw new Error('Recording must start before the first tick');
+        }
+        this.recording = createRecording(this.options);
+    }
+
+    public stopRecording(): FlockRecording | null {
+        const recording = this.recording;
+        this.recording = null;
+        if (recording) recording.ticks = this.tickCount;
+        return recording;
+    }
+
+    // Feed in an input from outside, recording it against the current tick
+    public apply(input: SimulationInput): void {
+        if (this.replay) return;
+        this.recording?.inputs.push({ tick: this.tickCount, input });
+        this.dispatch(input);
+    }
+
+    private dispatch(input: SimulationInput): void {
+        switch (input.type) {
+            case 'resize':
+                this.setSize(input.width, input.height);
+                break;
+            case 'pointer':
+                this.setPointer(input.id, input.x, input.y);
+                break;
+            case 'pointerEnd':
+                this.removePointer(input.id);
+                break;
+            case 'field':
+                this.setField(input.name);
+                break;
+            case 'obstacle':
+                this.setObstacle(input.obstacle);
+                break;
+            case 'removeObstacle':
+                this.removeObstacle(input.id);
+                break;
+            case 'config':
+                this.setConfig(input.color, input.config);
+                break;
+            case 'relationship':
+                this.setRelationship(input.from, input.to, input.relationship);
+                break;
+            case 'celebrate':
+                this.celebrate(input.x, input.y);
+                break;
+            case 'stopCelebration':
+                this.stopCelebration();
+                break;
+        }
+    }
+
+    public setSize(width: number, height: number): void {
+        this.world.resize(width, height);
+    }
+
+    public getConfig(color: BoidColor): FlockConfig {
+        return this.configs.get(color) ?? DEFAULT_FLOCK_CONFIG;
+    }
+
+    public setConfig(color: BoidColor, config: FlockConfig): void {
+        const colorBoids = this.boids.get(color);
+        if (!colorBoids) {
+            throw new Error(`Unknown boid color ${color}`);
+        }
+
+        const previousRadius = this.getMaxPerceptionRadius();
+        this.configs.set(color, config);
+        colorBoids.forEach(boid => boid.setConfig(config));
+
+        // The hash cells track the widest perception radius so a query only ever touches nearby cells
+        const radius = this.getMaxPerceptionRadius();
+        if (radius !== previousRadius) {
+            this.spatialHashes.forEach((_, hashColor) => this.spatialHashes.set(hashColor, new SpatialHash(radius)));
+            this.updateNeighborHashes();
+        }
+    }
+
+    public getRelationship(from: BoidColor, to: BoidColor): Relationship {
+        return this.relationships.get(from, to);
+    }
+
+    public setRelationship(from: BoidColor, to: BoidColor, relationship: Relationship): void {
+        this.relationships.set(from, to, relationship);
+        this.updateNeighborHashes();
+    }
+
+    // Colors a color ignores are left out, so their boids are never even looked at
+    private updateNeighborHashes(): void {
+        BOID_COLORS.forEach(color => {
+            const reactive: SpatialHash<Boid>[] = [];
+            const flocking: SpatialHash<Boid>[] = [];
+            BOID_COLORS.forEach(other => {
+                const relationship = this.relationships.get(color, other);
+                if (relationship === 'flock') {
+                    flocking.push(this.spatialHashes.get(other)!);
+                } else if (relationship !== 'ignore') {
+                    reactive.push(this.spatialHashes.get(other)!);
+                }
+            });
+            this.neighborHashes.set(color, { reactive, flocking });
+        });
+    }
+
+    private getMaxPerceptionRadius(): number {
+        let radius = 0;
+        this.configs.forEach(config => {
+            radius = Math.max(radius, config.perceptionRadius);
+        });
+        return radius;
+    }
+
+    public setTopology(topology: Topology): void {
+        this.world.setTopology(topology);
+    }
+
+    public setObstacle(obstacle: Obstacle): void {
+        this.world.setObstacle(obstacle);
+    }
+
+    public removeObstacle(id: number): void {
+        this.world.removeObstacle(id);
+    }
+
+    public setPointer(id: number, x: number, y: number): void {
+        const pointer = this.pointers.get(id);
+        if (!pointer) {
+            this.pointers.set(id, { position: new Vector(x, y), velocity: new Vector(0, 0) });
+            return;
+        }
+
+        pointer.velocity.add(new Vector(x - pointer.position.x, y - pointer.position.y));
+        pointer.position.x = x;
+        pointer.position.y = y;
+    }
+
+    public removePointer(id: number): void {
+        this.pointers.delete(id);
+    }
+
+    public setField(name: string): void {
+        if (!getField(name)) {
+            throw new Error(`Unknown interaction field ${name}`);
+        }
+        this.fieldName = name;
+    }
+
+    // Run the solved-puzzle effect around a point, replacing any cursor interaction until it ends
+    public celebrate(x: number, y: number): void {
+        this.celebration?.finish();
+        this.celebration = new Celebration(new Vector(x, y));
+    }
+
+    public stopCelebration(): void {
+        this.celebration?.finish();
+        this.celebration = null;
+    }
+
+    public getBoidCount(): number {
+        return this.boidCount;
+    }
+
+    public getWorld(): World {
+        return this.world;
+    }
+
+    public setPaused(isPaused: boolean): void {
+        this.isPaused = isPaused;
+    }
+
+    public setTimeScale(timeScale: number): void {
+        if (!(timeScale > 0)) {
+            throw new Error(`Invalid time scale ${timeScale}`);
+        }
+        this.timeScale = timeScale;
+    }
+
+    // Carry pause and slow motion over to a flock that replaces this one
+    public copyClockTo(other: FlockSimulation): void {
+        other.isPaused = this.isPaused;
+        other.timeScale = this.timeScale;
+    }
+
+    // Run as many fixed ticks as the elapsed time covers, keeping the remainder for next time
+    public advance(deltaMs: number): void {
+        if (this.isPaused) return;
+
+        this.accumulator += deltaMs * this.timeScale;
+        let ticks = 0;
+        while (this.accumulator >= TICK_MS && ticks < MAX_TICKS_PER_ADVANCE) {
+            this.tick();
+            this.accumulator -= TICK_MS;
+            ticks++;
+        }
+        this.accumulator = Math.min(this.accumulator, TICK_MS);
+    }
+
+    // How far between the last tick and the next one the clock is, from 0 to 1, for render interpolation.
+    // A paused flock shows exactly where the last tick left it.
+    public getInterpolation(): number {
+        return this.isPaused ? 1 : this.accumulator / TICK_MS;
+    }
+
+    // Advance the flock by one fixed tick, e.g. to step through a paused simulation
+    public tick(): void {
+        // Replay whatever arrived before this tick in the recorded run
+        if (this.replay) {
+            const { recording } = this.replay;
+            while (this.replay.index < recording.inputs.length && recording.inputs[this.replay.index].tick <= this.tickCount) {
+                const { input } = recording.inputs[this.replay.index++];
+                try {
+                    this.dispatch(input);
+                } catch (error) {
+                    // Skip an input the flock rejects rather than failing on it every tick
+                    console.warn('Skipping invalid recorded input', input, error);
+                }
+            }
+        }
+
+        // Index every color so each boid only looks at nearby flockmates, predators and prey
+        this.boids.forEach((colorBoids, color) => {
+            this.spatialHashes.get(color)!.rebuild(colorBoids, this.world.getWidth(), this.world.getHeight());
+        });
+
+        const field = getField(this.fieldName)!;
+        const obstacles = this.world.getObstacles();
+
+        // Update boid positions for each color group
+        this.boids.forEach((colorBoids, color) => {
+            const radius = this.getConfig(color).perceptionRadius;
+            const { reactive, flocking } = this.neighborHashes.get(color)!;
+
+            colorBoids.forEach(boid => {
+                // Every predator and prey nearby counts, but flockmates are capped
+                const neighbors = this.neighbors;
+                neighbors.length = 0;
+                reactive.forEach(hash => hash.collect(boid.position, radius, neighbors));
+                let flockmates = 0;
+                flocking.forEach(hash => flockmates += hash.count(boid.position, radius));
+                const step = Math.max(1, flockmates / MAX_FLOCKMATES);
+                flocking.forEach(hash => hash.collect(boid.position, radius, neighbors, step));
+                if (!boid.update(neighbors, this.world, this.relationships)) {
+                    // Boids that fly out of an open world are replaced by a newcomer from the edge,
+                    // keeping the population and the snapshot size constant
+                    this.respawn(boid);
+                    return;
+                }
+
+                // Obstacles always win over flocking and the cursor
+                obstacles.forEach(obstacle => applyObstacle(boid, obstacle));
+
+                // Every pointer pushes the flock through the selected field, unless the flock is celebrating
+                if (this.celebration) return;
+                this.pointers.forEach(pointer => field.apply(boid, pointer));
+            });
+        });
+
+        // Pointer velocity is movement accumulated between ticks; let it die down once the pointer rests
+        this.pointers.forEach(pointer => pointer.velocity.mult(0.8));
+
+        // Drive the solved-puzzle effect, then hand the flock back to the cursor
+        if (this.celebration) {
+            this.celebration.update(this.allBoids, TICK_MS);
+            if (this.celebration.getPhase() === 'done') {
+                this.stopCelebration();
+                this.onCelebrationEnd?.();
+            }
+        }
+
+        this.tickCount++;
+        if (this.replay && this.tickCount >= this.replay.recording.ticks) {
+            this.replay = null;
+            this.onReplayEnd?.();
+        }
+    }
+
+    private respawn(boid: Boid): void {
+        const entry = this.world.randomEntry(this.random);
+        boid.position = entry.position;
+        boid.previousPosition = entry.position.copy();
+        boid.velocity = entry.velocity.mult(boid.maxSpeed);
+        boid.acceleration.mult(0);
+    }
+
+    // Pack every boid into data (BOID_STRIDE floats each), which must hold getBoidCount() boids
+    public writeSnapshot(data: Float32Array): void {
+        let offset = 0;
+        this.boids.forEach((colorBoids, color) => {
+            const size = this.getConfig(color).boidSize;
+            colorBoids.forEach(boid => {
+                data[offset] = boid.position.x;
+                data[offset + 1] = boid.position.y;
+                data[offset + 2] = boid.velocity.x;
+                data[offset + 3] = boid.velocity.y;
+                data[offset + 4] = boid.color;
+                data[offset + 5] = size;
+                data[offset + 6] = boid.previousPosition.x;
+                data[offset + 7] = boid.previousPosition.y;
+                offset += BOID_STRIDE;
+            });
+        });
+    }
+}
@@ -0,0 +1,45 @@
+import { BoidColor } from './Boid';
+
+// How a boid reacts to a neighbor of another (or its own) color
+export type Relationship = 'ignore' | 'avoid' | 'chase' | 'flock';
+
+export const RELATIONSHIPS: Relationship[] = ['ignore', 'avoid', 'chase', 'flock'];
+
+export type RelationshipRule = {
+    from: BoidColor;
+    to: BoidColor;
+    relationship: Relationship;
+};
+
+// Predators and prey that make the background read as a small ecosystem
+export const DEFAULT_RELATIONSHIP_RULES: RelationshipRule[] = [
+    { from: BoidColor.RED, to: BoidColor.GREEN, relationship: 'chase' },
+    { from: BoidColor.GREEN, to: BoidColor.RED, relationship: 'avoid' },
+    { from: BoidColor.PURPLE, to: BoidColor.YELLOW, relationship: 'chase' },
+    { from: BoidColor.YELLOW, to: BoidColor.PURPLE, relationship: 'avoid' },
+    { from: BoidColor.BLUE, to: BoidColor.CYAN, relationship: 'flock' },
+    { from: BoidColor.CYAN, to: BoidColor.BLUE, relationship: 'flock' },
+];
+
+// Directed relationships between colors. Unset pairs keep today's behavior:
+// a color flocks with itself and ignores everyone else.
+export class RelationshipMatrix {
+    private rows: Map<BoidColor, Map<BoidColor, Relationship>> = new Map();
+
+    constructor(rules: RelationshipRule[] = []) {
+        rules.forEach(rule => this.set(rule.from, rule.to, rule.relationship));
+    }
+
+    public get(from: BoidColor, to: BoidColor): Relationship {
+        return this.rows.get(from)?.get(to) ?? (from === to ? 'flock' : 'ignore');
+    }
+
+    public set(from: BoidColor, to: BoidColor, relationship: Relationship): void {
+        let row = this.rows.get(from);
+        if (!row) {
+            row = new Map();
+            this.rows.set(from, row);
+        }
+        row.set(to, relationship);
+    }
+}
@@ -0,0 +1,134 @@
+import { Vector } from '../utils/vector';
+
+// Uniform grid over a wrapping (toroidal) area, rebuilt every tick so neighbor
+// lookups only visit the cells around a point instead of every item
+export class SpatialHash<T extends { position: Vector }> {
+    private readonly cellSize: number;
+    private cols: number = 1;
+    private rows: number = 1;
+    private width: number = 1;
+    private height: number = 1;
+    private items: T[] = [];
+    // Items sorted by cell: cell c holds sorted[cellStart[c]] .. sorted[cellStart[c + 1] - 1]
+    private cellStart: Int32Array = new Int32Array(2);
+    private sorted: Int32Array = new Int32Array(0);
+    private itemCells: Int32Array = new Int32Array(0);
+    // Next free slot per cell while placing items, kept between rebuilds
+    private cursor: Int32Array = new Int32Array(1);
+    // Cells of the latest lookup, reused so lookups don't allocate
+    private window = { minCol: 0, minRow: 0, colSpan: 0, rowSpan: 0 };
+
+    constructor(cellSize: number) {
+        if (cellSize <= 0) {
+            throw new Error('Cell size must be positive');
+        }
+        this.cellSize = cellSize;
+    }
+
+    // Re-bucket all items for an area of the given size
+    public rebuild(items: T[], width: number, height: number): void {
+        this.items = items;
+        this.width = width;
+        this.height = height;
+        this.cols = Math.max(1, Math.floor(width / this.cellSize));
+        this.rows = Math.max(1, Math.floor(height / this.cellSize));
+
+        const cellCount = this.cols * this.rows;
+        if (this.cellStart.length !== cellCount + 1) {
+            this.cellStart = new Int32Array(cellCount + 1);
+            this.cursor = new Int32Array(cellCount);
+        } else {
+            this.cellStart.fill(0);
+        }
+        if (this.sorted.length < items.length) {
+            this.sorted = new Int32Array(items.length);
+            this.itemCells = new Int32Array(items.length);
+        }
+
+        // Counting sort: tally each cell, turn the tallies into start offsets, then place items
+        for (let i = 0; i < items.length; i++) {
+            const cell = this.cellIndex(
+                this.wrap(Math.floor(items[i].position.x / width * this.cols), this.cols),
+                this.wrap(Math.floor(items[i].position.y / height * this.rows), this.rows)
+            );
+            this.itemCells[i] = cell;
+            this.cellStart[cell + 1]++;
+        }
+        for (let cell = 0; cell < cellCount; cell++) {
+            this.cellStart[cell + 1] += this.cellStart[cell];
+        }
+        this.cursor.set(this.cellStart.subarray(0, cellCount));
+        for (let i = 0; i < items.length; i++) {
+            this.sorted[this.cursor[this.itemCells[i]]++] = i;
+        }
+    }
+
+    // Collect items in the cells overlapping a circle, wrapping across the edges.
+    // Results are candidates only; callers still check the exact distance.
+    public query(position: Vector, radius: number, out: T[] = []): T[] {
+        out.length = 0;
+        return this.collect(position, radius, out);
+    }
+
+    // Like query(), but adds to what is already in out, e.g. to gather from several hashes.
+    // A step above 1 takes only every step-th candidate, an even sample of a crowded area.
+    public collect(position: Vector, radius: number, out: T[], step: number = 1): T[] {
+        this.setWindow(position, radius);
+        let index = 0;
+        let next = 0;
+        for (let r = 0; r < this.window.rowSpan; r++) {
+            const row = this.wrap(this.window.minRow + r, this.rows);
+            for (let c = 0; c < this.window.colSpan; c++) {
+                const cell = this.cellIndex(this.wrap(this.window.minCol + c, this.cols), row);
+                const start = this.cellStart[cell];
+                const size = this.cellStart[cell + 1] - start;
+                // Jump straight from one sampled candidate to the next; index counts the candidates before this cell
+                for (let pick = Math.ceil(next); pick < index + size; pick = Math.ceil(next)) {
+                    out.push(this.items[this.sorted[start + pick - index]]);
+                    next += step;
+                }
+                index += size;
+            }
+        }
+
+        return out;
+    }
+
+    // How many candidates collect() would find, without gathering them
+    public count(position: Vector, radius: number): number {
+        this.setWindow(position, radius);
+        let total = 0;
+        for (let r = 0; r < this.window.rowSpan; r++) {
+            const row = this.wrap(this.window.minRow + r, this.rows);
+            for (let c = 0; c < this.window.colSpan; c++) {
+                const cell = this.cellIndex(this.wrap(this.window.minCol + c, this.cols), row);
+                total += this.cellStart[cell + 1] - this.cellStart[cell];
+            }
+        }
+        return total;
+    }
+
+    // Cells overlapping a circle, wrapping across the edges
+    private setWindow(position: Vector, radius: number): void {
+        const cellWidth = this.width / this.cols;
+        const cellHeight = this.height / this.rows;
+        const minCol = Math.floor((position.x - radius) / cellWidth);
+        const maxCol = Math.floor((position.x + radius) / cellWidth);
+        const minRow = Math.floor((position.y - radius) / cellHeight);
+        const maxRow = Math.floor((position.y + radius) / cellHeight);
+
+        this.window.minCol = minCol;
+        this.window.minRow = minRow;
+        // Never visit a wrapped cell twice when the radius spans the whole area
+        this.window.colSpan = Math.min(maxCol - minCol + 1, this.cols);
+        this.window.rowSpan = Math.min(maxRow - minRow + 1, this.rows);
+    }
+
+    private cellIndex(col: number, row: number): number {
+        return row * this.cols + col;
+    }
+
+    private wrap(value: number, size: number): number {
+        return ((value % size) + size) % size;
+    }
+}
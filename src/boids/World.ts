@@ -0,0 +1,137 @@
+import { Vector } from '../utils/vector';
+import { Obstacle } from './obstacles';
+import { Random } from '../utils/random';
+
+// What happens to a boid that reaches the edge of the world:
+// torus wraps it to the opposite side, bounce reflects it off the wall,
+// open lets it leave so the simulation can despawn it
+export type Topology = 'torus' | 'bounce' | 'open';
+
+export const TOPOLOGIES: Topology[] = ['torus', 'bounce', 'open'];
+
+// The area boids fly in, independent of the window so the simulation can run headless
+export class World {
+    private width: number;
+    private height: number;
+    private topology: Topology;
+    private obstacles: Map<number, Obstacle> = new Map();
+
+    constructor(width: number, height: number, topology: Topology = 'torus') {
+        this.width = 0;
+        this.height = 0;
+        this.topology = topology;
+        this.resize(width, height);
+    }
+
+    public getWidth(): number {
+        return this.width;
+    }
+
+    public getHeight(): number {
+        return this.height;
+    }
+
+    public getTopology(): Topology {
+        return this.topology;
+    }
+
+    public setTopology(topology: Topology): void {
+        this.topology = topology;
+    }
+
+    // Add an obstacle, or move one that is already registered under the same id
+    public setObstacle(obstacle: Obstacle): void {
+        this.obstacles.set(obstacle.id, obstacle);
+    }
+
+    public removeObstacle(id: number): void {
+        this.obstacles.delete(id);
+    }
+
+    public getObstacles(): Obstacle[] {
+        return Array.from(this.obstacles.values());
+    }
+
+    public resize(width: number, height: number): void {
+        if (!(width > 0) || !(height > 0)) {
+            throw new Error(`Invalid world size ${width}x${height}`);
+        }
+        this.width = width;
+        this.height = height;
+    }
+
+    public contains(position: Vector): boolean {
+        return position.x >= 0 && position.x <= this.width &&
+            position.y >= 0 && position.y <= this.height;
+    }
+
+    // Shortest displacement from one point to another, crossing the edges on a torus
+    public offset(from: Vector, to: Vector): Vector {
+        return new Vector(this.deltaX(from.x, to.x), this.deltaY(from.y, to.y));
+    }
+
+    // The two axes of offset() as plain numbers, for hot loops that can't afford a Vector per call
+    public deltaX(from: number, to: number): number {
+        return this.wrapDelta(to - from, this.width);
+    }
+
+    public deltaY(from: number, to: number): number {
+        return this.wrapDelta(to - from, this.height);
+    }
+
+    private wrapDelta(delta: number, size: number): number {
+        if (this.topology !== 'torus') return delta;
+        if (delta > size / 2) return delta - size;
+        if (delta < -size / 2) return delta + size;
+        return delta;
+    }
+
+    // Apply the edge rule after a boid moves. Returns false once the boid has left an open world.
+    public constrain(position: Vector, velocity: Vector): boolean {
+        switch (this.topology) {
+            case 'torus':
+                if (position.x < 0) position.x = this.width;
+                if (position.x > this.width) position.x = 0;
+                if (position.y < 0) position.y = this.height;
+                if (position.y > this.height) position.y = 0;
+                return true;
+            case 'bounce':
+                if (position.x < 0 || position.x > this.width) {
+                    position.x = Math.min(Math.max(position.x, 0), this.width);
+                    velocity.x = -velocity.x;
+                }
+                if (position.y < 0 || position.y > this.height) {
+                    position.y = Math.min(Math.max(position.y, 0), this.height);
+                    velocity.y = -velocity.y;
+                }
+                return true;
+            case 'open':
+                return this.contains(position);
+        }
+    }
+
+    // A point on a random edge and a heading into the world, for boids entering an open world
+    public randomEntry(random: Random): { position: Vector; velocity: Vector } {
+        const velocity = Vector.random2D(random);
+        let position: Vector;
+        switch (random.nextInt(4)) {
+            case 0:
+                position = new Vector(0, random.next() * this.height);
+                velocity.x = Math.abs(velocity.x);
+                break;
+            case 1:
+                position = new Vector(this.width, random.next() * this.height);
+                velocity.x = -Math.abs(velocity.x);
+                break;
+            case 2:
+                position = new Vector(random.next() * this.width, 0);
+                velocity.y = Math.abs(velocity.y);
+                break;
+            default:
+                position = new Vector(random.next() * this.width, this.height);
+                velocity.y = -Math.abs(velocity.y);
+                break;
+        }
+        return { position, velocity };
+    }
+}
@@ -0,0 +1,89 @@
+import { Boid } from './Boid';
+import { applyCircularFlow, applyDirectionalFlow } from './flows';
+import { Vector } from '../utils/vector';
+
+// One pointer or touch pushing the flock, with how fast it is moving in pixels per tick
+export type FieldSource = {
+    position: Vector;
+    velocity: Vector;
+};
+
+// A way for a pointer to push boids around, applied once per boid and source every tick
+export type InteractionField = {
+    name: string;
+    label: string;
+    apply(boid: Boid, source: FieldSource): void;
+};
+
+const fields: Map<string, InteractionField> = new Map();
+
+// Make a field available by name. Fields are looked up where the simulation runs,
+// so custom ones must be registered in that context (e.g. inside the worker).
+export function registerField(field: InteractionField): void {
+    fields.set(field.name, field);
+}
+
+export function getField(name: string): InteractionField | undefined {
+    return fields.get(name);
+}
+
+export function getFields(): InteractionField[] {
+    return Array.from(fields.values());
+}
+
+export const DEFAULT_FIELD = 'directional';
+
+registerField({
+    name: 'directional',
+    label: 'Directional',
+    apply: (boid, source) => applyDirectionalFlow(boid, source.position),
+});
+
+registerField({
+    name: 'circular',
+    label: 'Circular',
+    apply: (boid, source) => applyCircularFlow(boid, source.position),
+});
+
+// A wide whirlpool that turns every boid the same way
+registerField({
+    name: 'vortex',
+    label: 'Vortex',
+    apply: (boid, source) => applyCircularFlow(boid, source.position, {
+        radius: 300,
+        strength: 0.4,
+        falloff: 200,
+        direction: 1,
+    }),
+});
+
+registerField({
+    name: 'attractor',
+    label: 'Attractor',
+    apply: (boid, source) => {
+        const pull = source.position.copy().sub(boid.position);
+        const distance = pull.mag();
+        if (distance < 250) {
+            boid.applyForce(pull.setMag(0.3 * Math.exp(-distance / 150)));
+        }
+    },
+});
+
+registerField({
+    name: 'repulsor',
+    label: 'Repulsor',
+    apply: (boid, source) => boid.repelFrom(source.position, 0.02, 150),
+});
+
+// Blow boids along the way the pointer is moving
+registerField({
+    name: 'wind',
+    label: 'Wind',
+    apply: (boid, source) => {
+        const distance = boid.position.dist(source.position);
+        if (distance < 250) {
+            const gust = source.velocity.copy().mult(0.02 * Math.exp(-distance / 150));
+            boid.applyForce(gust.limit(0.5));
+        }
+    },
+});
@@ -0,0 +1,80 @@
+import { Boid } from './Boid';
+import { Vector } from '../utils/vector';
+
+export type FlowOptions = {
+    // Boids farther than this from the center are unaffected
+    radius?: number;
+    // Peak force at the center
+    strength?: number;
+    // Distance over which the force decays by a factor of e
+    falloff?: number;
+    // Force a rotation direction (1 or -1) instead of following each boid's approach
+    direction?: 1 | -1;
+};
+
+// Swirl boids around a center, each turning the way it was already heading
+export function applyCircularFlow(boid: Boid, center: Vector, options: FlowOptions = {}): void {
+    const { radius = 150, strength = 0.3, falloff = 100, direction } = options;
+    const dx = center.x - boid.position.x;
+    const dy = center.y - boid.position.y;
+    const distanceSquared = dx * dx + dy * dy;
+    
+    if (distanceSquared < radius * radius) {
+        // Calculate the angle between boid's velocity and direction to cursor
+        const toCursor = new Vector(dx, dy);
+        const angle = toCursor.angleBetween(boid.velocity);
+        
+        // Create tangential force (perpendicular to direction to cursor)
+        const tangent = new Vector(-dy, dx);
+        tangent.normalize();
+        
+        // Determine which way to flow based on which side of the cursor the boid is approaching from
+        if (direction !== undefined) {
+            tangent.mult(direction);
+        } else if (angle < 0) {
+            tangent.mult(-1); // Reverse direction if needed
+        }
+        
+        // Smooth exponential falloff
+        const distance = Math.sqrt(distanceSquared);
+        tangent.mult(Math.exp(-distance / falloff) * strength);
+        
+        boid.applyForce(tangent);
+    }
+}
+
+// Pull boids heading towards the center in, and scatter those heading away
+export function applyDirectionalFlow(boid: Boid, center: Vector, options: FlowOptions = {}): void {
+    const { radius = 150, strength = 0.5, falloff = 50 } = options;
+    const dx = center.x - boid.position.x;
+    const dy = center.y - boid.position.y;
+    const distanceSquared = dx * dx + dy * dy;
+    
+    if (distanceSquared < radius * radius) {
+        // Calculate the angle between boid's velocity and direction to cursor
+        const toCursor = new Vector(dx, dy);
+        const angle = toCursor.angleBetween(boid.velocity);
+        const distance = Math.sqrt(distanceSquared);
+        
+        // If boid is moving away from cursor (angle > 90 degrees), apply scatter force
+        if (Math.abs(angle) > Math.PI / 2) {
+            // Create a scatter force in the direction of current velocity
+            const scatter = boid.velocity.copy();
+            scatter.normalize();
+            
+            // Smooth exponential falloff for scatter
+            scatter.mult(Math.exp(-distance / falloff) * strength);
+            
+            boid.applyForce(scatter);
+        } else {
+            // Create a charge force towards the cursor
+            const charge = toCursor.copy();
+            charge.normalize();
+            
+            // Smooth exponential falloff for charge
+            charge.mult(Math.exp(-distance / falloff) * strength);
+            
+            boid.applyForce(charge);
+        }
+    }
+}
@@ -0,0 +1,75 @@
+import { Boid } from './Boid';
+import { Vector } from '../utils/vector';
+
+type ObstacleBase = {
+    id: number;
+    // Movement per tick; a moving obstacle carries the boids it runs into along with it
+    vx: number;
+    vy: number;
+};
+
+export type RectObstacle = ObstacleBase & { shape: 'rect'; x: number; y: number; width: number; height: number };
+export type CircleObstacle = ObstacleBase & { shape: 'circle'; x: number; y: number; radius: number };
+export type Obstacle = RectObstacle | CircleObstacle;
+
+// Boids start turning away this far from an obstacle's surface
+const AVOID_MARGIN = 30;
+// Steering force at the surface, relative to the boid's own force limit
+const AVOID_STRENGTH = 3;
+
+// Where a boid sits relative to an obstacle: the nearest surface point and the outward normal there
+function nearestSurface(obstacle: Obstacle, position: Vector): { point: Vector; normal: Vector; inside: boolean } {
+    if (obstacle.shape === 'circle') {
+        const normal = position.copy().sub(new Vector(obstacle.x, obstacle.y));
+        const distance = normal.mag();
+        if (distance === 0) normal.x = 1; // Dead center: any way out will do
+        normal.normalize();
+        const point = normal.copy().mult(obstacle.radius).add(new Vector(obstacle.x, obstacle.y));
+        return { point, normal, inside: distance < obstacle.radius };
+    }
+
+    const left = obstacle.x;
+    const right = obstacle.x + obstacle.width;
+    const top = obstacle.y;
+    const bottom = obstacle.y + obstacle.height;
+    const inside = position.x > left && position.x < right && position.y > top && position.y < bottom;
+
+    if (inside) {
+        // Leave through the closest edge
+        const exits = [
+            { distance: position.x - left, point: new Vector(left, position.y), normal: new Vector(-1, 0) },
+            { distance: right - position.x, point: new Vector(right, position.y), normal: new Vector(1, 0) },
+            { distance: position.y - top, point: new Vector(position.x, top), normal: new Vector(0, -1) },
+            { distance: bottom - position.y, point: new Vector(position.x, bottom), normal: new Vector(0, 1) },
+        ];
+        const exit = exits.reduce((best, candidate) => candidate.distance < best.distance ? candidate : best);
+        return { point: exit.point, normal: exit.normal, inside };
+    }
+
+    const point = new Vector(
+        Math.min(Math.max(position.x, left), right),
+        Math.min(Math.max(position.y, top), bottom)
+    );
+    return { point, normal: position.copy().sub(point).normalize(), inside };
+}
+
+// Steer a boid around an obstacle, and shove it out of the way if the obstacle has run into it
+export function applyObstacle(boid: Boid, obstacle: Obstacle): void {
+    const { point, normal, inside } = nearestSurface(obstacle, boid.position);
+
+    if (inside) {
+        boid.position.x = point.x;
+        boid.position.y = point.y;
+
+        // Take on the obstacle's motion along the push, and stop heading back in
+        const push = normal.x * obstacle.vx + normal.y * obstacle.vy;
+        const inward = normal.x * boid.velocity.x + normal.y * boid.velocity.y;
+        boid.velocity.add(normal.copy().mult(Math.max(push, 0) - Math.min(inward, 0)));
+        return;
+    }
+
+    const distance = boid.position.dist(point);
+    if (distance < AVOID_MARGIN) {
+        boid.applyForce(normal.mult(boid.maxForce * AVOID_STRENGTH * (1 - distance / AVOID_MARGIN)));
+    }
+}
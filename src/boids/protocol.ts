@@ -0,0 +1,53 @@
+import { FlockSimulationOptions } from './FlockSimulation';
+import { FlockRecording } from './FlockRecording';
+import { BoidColor } from './Boid';
+import { FlockConfig } from './FlockConfig';
+import { Relationship } from './Relationships';
+import { Obstacle } from './obstacles';
+
+// Everything from outside that changes what the flock does. Inputs are recorded
+// by the tick they arrive on, so a seeded run can be replayed exactly.
+export type SimulationInput =
+    | { type: 'resize'; width: number; height: number }
+    | { type: 'pointer'; id: number; x: number; y: number }
+    | { type: 'pointerEnd'; id: number }
+    | { type: 'field'; name: string }
+    | { type: 'obstacle'; obstacle: Obstacle }
+    | { type: 'removeObstacle'; id: number }
+    | { type: 'config'; color: BoidColor; config: FlockConfig }
+    | { type: 'relationship'; from: BoidColor; to: BoidColor; relationship: Relationship }
+    | { type: 'celebrate'; x: number; y: number }
+    | { type: 'stopCelebration' };
+
+// Messages from the main thread to the simulation worker
+export type SimulationCommand =
+    | SimulationInput
+    | { type: 'init'; options: FlockSimulationOptions }
+    // Start over from a fresh flock, recording every input from the first tick
+    | { type: 'record'; options: FlockSimulationOptions }
+    | { type: 'stopRecording' }
+    | { type: 'replay'; recording: FlockRecording }
+    // Advance the clock by deltaMs, plus any single ticks requested while paused
+    | { type: 'step'; deltaMs: number; ticks: number }
+    | { type: 'pause'; paused: boolean }
+    | { type: 'timeScale'; timeScale: number }
+    // Hand a snapshot buffer back once it has been drawn so the worker can reuse it
+    | { type: 'release'; buffer: ArrayBuffer };
+
+// Messages from the simulation worker to the main thread
+export type SimulationEvent =
+    | { type: 'snapshot'; buffer: ArrayBuffer; count: number; width: number; height: number; interpolation: number }
+    | { type: 'celebrationEnd' }
+    // Answer to stopRecording; null when nothing was being recorded
+    | { type: 'recording'; recording: FlockRecording | null }
+    | { type: 'replayEnd' };
+
+// Packed boid state as seen by the renderer: BOID_STRIDE floats per boid
+export type FlockSnapshot = {
+    data: Float32Array;
+    count: number;
+    width: number;
+    height: number;
+    // Progress from the previous tick's positions to the current ones, from 0 to 1
+    interpolation: number;
+};
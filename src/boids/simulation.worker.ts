@@ -0,0 +1,88 @@
+import { FlockSimulation, BOID_STRIDE } from './FlockSimulation';
+import { SimulationCommand, SimulationEvent } from './protocol';
+
+let simulation: FlockSimulation | null = null;
+
+// Snapshot buffers the main thread has finished drawing
+const freeBuffers: ArrayBuffer[] = [];
+
+function post(event: SimulationEvent, transfer: Transferable[] = []): void {
+    self.postMessage(event, { transfer });
+}
+
+function postSnapshot(sim: FlockSimulation): void {
+    const count = sim.getBoidCount();
+    const byteLength = count * BOID_STRIDE * Float32Array.BYTES_PER_ELEMENT;
+
+    let buffer = freeBuffers.pop();
+    if (!buffer || buffer.byteLength !== byteLength) {
+        buffer = new ArrayBuffer(byteLength);
+    }
+
+    sim.writeSnapshot(new Float32Array(buffer));
+    const world = sim.getWorld();
+    post({
+        type: 'snapshot',
+        buffer,
+        count,
+        width: world.getWidth(),
+        height: world.getHeight(),
+        interpolation: sim.getInterpolation(),
+    }, [buffer]);
+}
+
+// Swap in a new flock, keeping the playback controls the main thread has set
+function start(next: FlockSimulation): FlockSimulation {
+    next.onCelebrationEnd = () => post({ type: 'celebrationEnd' });
+    next.onReplayEnd = () => post({ type: 'replayEnd' });
+    simulation?.copyClockTo(next);
+    simulation = next;
+    return next;
+}
+
+self.onmessage = (e: MessageEvent<SimulationCommand>) => {
+    const command = e.data;
+
+    switch (command.type) {
+        case 'init':
+            postSnapshot(start(new FlockSimulation(command.options)));
+            return;
+        case 'record':
+            start(new FlockSimulation(command.options)).startRecording();
+            return;
+        case 'replay':
+            // A recording that can't be rebuilt leaves the current flock running rather than the worker dead
+            try {
+                start(FlockSimulation.fromRecording(command.recording));
+            } catch (error) {
+                console.warn('Could not replay recording', error);
+            }
+            return;
+        case 'release':
+            freeBuffers.push(command.buffer);
+            return;
+    }
+    if (!simulation) return;
+
+    switch (command.type) {
+        case 'step':
+            simulation.advance(command.deltaMs);
+            for (let i = 0; i < command.ticks; i++) {
+                simulation.tick();
+            }
+            postSnapshot(simulation);
+            break;
+        case 'pause':
+            simulation.setPaused(command.paused);
+            break;
+        case 'timeScale':
+            simulation.setTimeScale(command.timeScale);
+            break;
+        case 'stopRecording':
+            post({ type: 'recording', recording: simulation.stopRecording() });
+            break;
+        default:
+            simulation.apply(command);
+            break;
+    }
+};
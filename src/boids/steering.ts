@@ -0,0 +1,159 @@
+import { Boid } from './Boid';
+import { Vector } from '../utils/vector';
+import { Random } from '../utils/random';
+
+// Anything a steering behavior needs to know about a moving target
+export type Agent = {
+    position: Vector;
+    velocity: Vector;
+};
+
+// A steering behavior returns the force it wants applied to a boid this tick
+export type SteeringBehavior = (boid: Boid) => Vector;
+
+export type WeightedBehavior = {
+    behavior: SteeringBehavior;
+    weight: number;
+};
+
+// Sum weighted behaviors and apply the result, so game modes can script movement declaratively:
+// applySteering(boid, [{ behavior: seek(target), weight: 1 }, { behavior: wander(), weight: 0.3 }])
+export function applySteering(boid: Boid, behaviors: WeightedBehavior[]): void {
+    const total = new Vector(0, 0);
+    behaviors.forEach(({ behavior, weight }) => {
+        total.add(behavior(boid).mult(weight));
+    });
+    boid.applyForce(total);
+}
+
+// Reynolds steering: turn the current velocity towards a desired one, within the boid's force limit
+function steerTowards(boid: Boid, desired: Vector): Vector {
+    return desired.sub(boid.velocity).limit(boid.maxForce);
+}
+
+// Head for a point at full speed
+export function seek(target: Vector): SteeringBehavior {
+    return boid => steerTowards(boid, target.copy().sub(boid.position).setMag(boid.maxSpeed));
+}
+
+// Run from a point at full speed, ignoring it beyond the panic distance
+export function flee(target: Vector, panicDistance: number = Infinity): SteeringBehavior {
+    return boid => {
+        const away = boid.position.copy().sub(target);
+        if (away.mag() > panicDistance) return new Vector(0, 0);
+        return steerTowards(boid, away.setMag(boid.maxSpeed));
+    };
+}
+
+// Seek, but slow down inside the slowing radius so the boid comes to rest on the point
+export function arrive(target: Vector, slowingRadius: number = 100): SteeringBehavior {
+    return boid => {
+        const offset = target.copy().sub(boid.position);
+        const distance = offset.mag();
+        const speed = distance < slowingRadius ? boid.maxSpeed * (distance / slowingRadius) : boid.maxSpeed;
+        return steerTowards(boid, offset.setMag(speed));
+    };
+}
+
+// Where a target will be by the time the boid could reach it, assuming it keeps its velocity
+function predictPosition(boid: Boid, target: Agent): Vector {
+    const ticks = target.position.dist(boid.position) / Math.max(boid.maxSpeed, 0.001);
+    return target.velocity.copy().mult(ticks).add(target.position);
+}
+
+// Seek where a moving target is going to be rather than where it is
+export function pursue(target: Agent): SteeringBehavior {
+    return boid => seek(predictPosition(boid, target))(boid);
+}
+
+// Flee from where a moving target is going to be
+export function evade(target: Agent, panicDistance: number = Infinity): SteeringBehavior {
+    return boid => {
+        if (target.position.dist(boid.position) > panicDistance) return new Vector(0, 0);
+        return flee(predictPosition(boid, target))(boid);
+    };
+}
+
+export type WanderOptions = {
+    // How far ahead of the boid the wander circle sits
+    distance?: number;
+    // Radius of the wander circle
+    radius?: number;
+    // Largest change of the wander angle per tick, in radians
+    jitter?: number;
+    // Seeded generator, to make the meandering reproducible
+    random?: Random;
+};
+
+// Smooth random meandering: steer towards a point that drifts around a circle in front of the boid
+export function wander(options: WanderOptions = {}): SteeringBehavior {
+    const { distance = 60, radius = 30, jitter = 0.3, random = new Random(Random.randomSeed()) } = options;
+    // Each boid keeps its own wander angle so a shared behavior doesn't move them in lockstep
+    const angles = new WeakMap<Boid, number>();
+
+    return boid => {
+        const angle = (angles.get(boid) ?? random.next() * Math.PI * 2) + (random.next() * 2 - 1) * jitter;
+        angles.set(boid, angle);
+
+        const heading = boid.velocity.mag() > 0 ? boid.velocity.copy() : Vector.random2D(random);
+        const center = heading.setMag(distance).add(boid.position);
+        const target = new Vector(center.x + Math.cos(angle) * radius, center.y + Math.sin(angle) * radius);
+        return seek(target)(boid);
+    };
+}
+
+export type PathOptions = {
+    // Distance at which a waypoint counts as reached
+    radius?: number;
+    // Start over from the first waypoint after the last one instead of stopping there
+    loop?: boolean;
+};
+
+// Visit waypoints in order, arriving at the last one unless the path loops
+export function followPath(path: Vector[], options: PathOptions = {}): SteeringBehavior {
+    if (path.length === 0) {
+        throw new Error('Path needs at least one waypoint');
+    }
+    const { radius = 20, loop = false } = options;
+    // Each boid makes its own way along the path
+    const waypoints = new WeakMap<Boid, number>();
+
+    return boid => {
+        let index = waypoints.get(boid) ?? 0;
+        if (boid.position.dist(path[index]) < radius && (loop || index < path.length - 1)) {
+            index = (index + 1) % path.length;
+            waypoints.set(boid, index);
+        }
+
+        const isLast = !loop && index === path.length - 1;
+        return isLast ? arrive(path[index])(boid) : seek(path[index])(boid);
+    };
+}
+
+export type LeaderOptions = {
+    // How far behind the leader followers gather
+    distance?: number;
+    // Followers this close to the point ahead of the leader get out of its way
+    clearance?: number;
+};
+
+// Trail a leader: arrive at a point behind it, and step aside when in front of it
+export function followLeader(leader: Agent, options: LeaderOptions = {}): SteeringBehavior {
+    const { distance = 40, clearance = 40 } = options;
+
+    return boid => {
+        if (leader.velocity.mag() === 0) {
+            return arrive(leader.position)(boid);
+        }
+
+        const heading = leader.velocity.copy().normalize();
+        const behind = heading.copy().mult(-distance).add(leader.position);
+        const force = arrive(behind)(boid);
+
+        const ahead = heading.mult(distance).add(leader.position);
+        if (boid.position.dist(ahead) < clearance) {
+            force.add(evade(leader)(boid));
+        }
+        return force;
+    };
+}
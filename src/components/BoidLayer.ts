@@ -0,0 +1,67 @@
+import * as PIXI from 'pixi.js';
+
+// Triangle texture is drawn at this size and scaled to each boid's configured size
+const TEXTURE_SIZE = 16;
+
+let boidTexture: PIXI.Texture | null = null;
+
+// One white isometric triangle shared by every boid sprite, tinted per color
+function getBoidTexture(): PIXI.Texture {
+  if (!boidTexture) {
+    const canvas = document.createElement('canvas');
+    canvas.width = TEXTURE_SIZE * 2;
+    canvas.height = TEXTURE_SIZE * 2;
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#FFFFFF';
+    context.beginPath();
+    context.moveTo(TEXTURE_SIZE, 0); // Top point
+    context.lineTo(TEXTURE_SIZE * 1.85, TEXTURE_SIZE * 2); // Bottom right
+    context.lineTo(TEXTURE_SIZE * 0.15, TEXTURE_SIZE * 2); // Bottom left
+    context.closePath();
+    context.fill();
+    boidTexture = PIXI.Texture.from(canvas);
+  }
+  return boidTexture;
+}
+
+// Draws boids from a pool of sprites that only ever grows, updating transforms in place
+// so a frame allocates nothing and costs one draw call however many boids are visible
+export class BoidLayer extends PIXI.ParticleContainer {
+  private sprites: PIXI.Sprite[] = [];
+  private used: number = 0;
+
+  // maxSize only sizes the first batch; autoResize adds batches so a bigger flock is never cut off
+  constructor(maxSize: number = 1500) {
+    super(maxSize, { vertices: true, position: true, rotation: true, tint: true }, undefined, true);
+  }
+
+  // Start a frame; every boid drawn before end() reuses a sprite from the pool
+  begin(): void {
+    this.used = 0;
+  }
+
+  add(x: number, y: number, vx: number, vy: number, color: number, size: number): void {
+    let sprite = this.sprites[this.used];
+    if (!sprite) {
+      sprite = new PIXI.Sprite(getBoidTexture());
+      sprite.anchor.set(0.5);
+      this.sprites.push(sprite);
+      this.addChild(sprite);
+    }
+    this.used++;
+
+    sprite.position.set(x, y);
+    // Add PI/2 to align the triangle's point with the direction of movement
+    sprite.rotation = Math.atan2(vy, vx) + Math.PI / 2;
+    sprite.scale.set(size / TEXTURE_SIZE);
+    sprite.tint = color;
+    sprite.alpha = 1;
+  }
+
+  // Hide whatever the pool holds beyond this frame's boids; particle containers ignore visible
+  end(): void {
+    for (let i = this.used; i < this.sprites.length; i++) {
+      this.sprites[i].alpha = 0;
+    }
+  }
+}
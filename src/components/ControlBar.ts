@@ -0,0 +1,88 @@
+// Shared look for the HTML controls drawn over the canvas
+export const CONTROL_STYLE: Partial<CSSStyleDeclaration> = {
+  padding: '10px 20px',
+  backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  color: '#FFE5B4',
+  border: 'none',
+  borderRadius: '6px',
+  fontSize: '16px',
+  fontWeight: '600',
+  cursor: 'pointer',
+  fontFamily: 'Arial, sans-serif',
+  transition: 'background-color 0.2s',
+};
+
+const HOVER_BACKGROUND = 'rgba(0, 0, 0, 0.5)';
+
+export type SelectOption = {
+  value: string;
+  label: string;
+};
+
+// Row of buttons and pickers fixed to the bottom-right corner of the game
+export class ControlBar {
+  private element: HTMLDivElement;
+
+  constructor(parent: HTMLElement) {
+    this.element = document.createElement('div');
+    this.element.className = 'control-bar';
+
+    Object.assign(this.element.style, {
+      position: 'absolute',
+      bottom: '20px',
+      right: '20px',
+      maxWidth: 'calc(100% - 40px)',
+      display: 'flex',
+      flexWrap: 'wrap', // Narrow (portrait) hosts stack the controls upwards
+      justifyContent: 'flex-end',
+      gap: '8px',
+      zIndex: '1000',
+    });
+
+    parent.appendChild(this.element);
+  }
+
+  addButton(label: string, onClick: () => void, className: string = ''): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.className = className;
+    Object.assign(button.style, CONTROL_STYLE);
+    this.addHoverEffect(button);
+
+    button.onclick = () => onClick();
+
+    this.element.appendChild(button);
+    return button;
+  }
+
+  addSelect(options: SelectOption[], value: string, onChange: (value: string) => void): HTMLSelectElement {
+    const select = document.createElement('select');
+    options.forEach(option => {
+      const element = document.createElement('option');
+      element.value = option.value;
+      element.textContent = option.label;
+      select.appendChild(element);
+    });
+    select.value = value;
+    Object.assign(select.style, CONTROL_STYLE);
+    this.addHoverEffect(select);
+
+    select.onchange = () => onChange(select.value);
+
+    this.element.appendChild(select);
+    return select;
+  }
+
+  private addHoverEffect(element: HTMLElement): void {
+    element.onmouseover = () => {
+      element.style.backgroundColor = HOVER_BACKGROUND;
+    };
+    element.onmouseout = () => {
+      element.style.backgroundColor = CONTROL_STYLE.backgroundColor!;
+    };
+  }
+
+  destroy(): void {
+    this.element.remove();
+  }
+}
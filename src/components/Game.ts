@@ -1,308 +1,942 @@
 import * as PIXI from 'pixi.js';
-import { Boid, BoidColor } from '../boids/Boid';
-import { PuzzleTile, tileData, GAP, GRID_ROWS, GRID_COLS, calculateTileDimensions } from './PuzzleTile';
-import { Vector } from '../utils/vector';
-import { PuzzleState } from '../puzzle/PuzzleState';
+import { FlockHost, createFlockHost } from '../boids/FlockHost';
+import { BOID_STRIDE, BOID_COLORS, TICK_MS, TIME_SCALES, FlockSimulationOptions } from '../boids/FlockSimulation';
+import { DEFAULT_RELATIONSHIP_RULES } from '../boids/Relationships';
+import { DEFAULT_FIELD, getFields } from '../boids/fields';
+import { PuzzleTile, createTileData, getEmptyTileId } from './PuzzleTile';
+import { BoardLayout, Layout, LayoutOptions } from './Layout';
+import { MoveQueue } from './MoveQueue';
+import { TileReconciler } from './TileReconciler';
+import { PuzzleState, GridSize, Direction, TileId, DEFAULT_GRID_SIZE } from '../puzzle/PuzzleState';
+import { Solution } from '../puzzle/PuzzleSolver';
+import { PuzzleHost } from '../puzzle/PuzzleHost';
+import { Difficulty, DIFFICULTIES, getDailySeed } from '../puzzle/PuzzleGenerator';
+import { PuzzleSnapshot, saveSnapshot, loadSnapshot, encodeSnapshotHash, decodeSnapshotHash } from '../puzzle/PuzzleSnapshot';
+import { Leaderboard } from '../puzzle/Leaderboard';
+import { Random } from '../utils/random';
+import { Stopwatch } from '../utils/stopwatch';
+import { ControlBar, SelectOption } from './ControlBar';
+import { Hud } from './Hud';
+import { BoidLayer } from './BoidLayer';
+import { SimulationControls } from './SimulationControls';
+import { TuningPanel } from './TuningPanel';
+
+// Board sizes offered in the size picker
+const GRID_SIZE_OPTIONS: GridSize[] = [
+  { rows: 3, cols: 3 },
+  { rows: 4, cols: 4 },
+  { rows: 5, cols: 5 },
+  { rows: 3, cols: 5 },
+];
+
+// Seconds per tile slide for normal moves and while the solver plays back its solution
+const MOVE_DURATION = 0.4;
+const AUTO_SOLVE_MOVE_DURATION = 0.25;
+
+// Keys that slide a tile, mapped to the direction the tile travels
+const DIRECTION_KEYS: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  w: 'up',
+  W: 'up',
+  s: 'down',
+  S: 'down',
+  a: 'left',
+  A: 'left',
+  d: 'right',
+  D: 'right',
+};
+
+// Playback rates offered for replaying a finished game
+const REPLAY_SPEED_OPTIONS = [0.5, 1, 2, 4];
+
+export type GameOptions = {
+  // Board a fresh game starts with, before any saved or shared game is restored
+  gridSize?: GridSize;
+  difficulty?: Difficulty;
+  boidsPerColor?: number;
+  // Save progress to local storage and resume it on the next mount
+  persist?: boolean;
+  // Open boards shared through the page's URL hash
+  useUrlHash?: boolean;
+  // Listen for arrow keys and shortcuts on the whole window
+  keyboard?: boolean;
+  layout?: Partial<LayoutOptions>;
+};
+
+const DEFAULT_GAME_OPTIONS: Required<GameOptions> = {
+  gridSize: DEFAULT_GRID_SIZE,
+  difficulty: 'medium',
+  boidsPerColor: 50, // 500 total boids divided among 10 colors
+  persist: true,
+  useUrlHash: true,
+  keyboard: true,
+  layout: {},
+};
 
 export class Game {
+  private readonly container: HTMLElement;
+  private readonly options: Required<GameOptions>;
   private app: PIXI.Application;
-  private boids: Map<BoidColor, Boid[]> = new Map();
+  private layout: Layout;
+  private flock: FlockHost;
+  private boidLayer: BoidLayer;
   private tiles: PuzzleTile[] = [];
-  private mousePosition: Vector;
-  private isCircularFlow: boolean = false; // Changed default to directional flow
-  private puzzleState: PuzzleState;
-  private shuffleButton: HTMLButtonElement | null = null;
+  private reconciler!: TileReconciler;
+  // Last screen position of each sliding tile, by tile id, to work out how fast it is shoving boids
+  private movingTiles: Map<number, { x: number; y: number }> = new Map();
+  private fieldName: string = DEFAULT_FIELD;
+  private puzzleState!: PuzzleState;
+  private tilesContainer: PIXI.Container;
+  private controlBar: ControlBar;
+  private autoSolveButton: HTMLButtonElement;
+  private replayButton: HTMLButtonElement;
+  private replaySpeed: number = 1;
+  private difficulty: Difficulty = 'medium';
+  // Settings of the game in progress, which the pickers may no longer match
+  private gameDifficulty: Difficulty = 'medium';
+  private seed: number | null = null;
+  private optimalMoves: number | null = null;
+  private isAssisted: boolean = false;
+  private isRecorded: boolean = false;
+  private leaderboard: Leaderboard = new Leaderboard();
+  // Solver searches run here, off the main thread where possible
+  private puzzleHost: PuzzleHost = new PuzzleHost();
+  private isSolving: boolean = false;
+  // Bumped whenever a board is chosen, so a puzzle that finishes generating after a newer choice is dropped
+  private boardRequest: number = 0;
+  private hud: Hud;
+  private simulationControls: SimulationControls;
+  private tuningPanel: TuningPanel | null = null;
+  private hudMessage: string = '';
+  private isCelebrating: boolean = false;
+  private stopwatch: Stopwatch = new Stopwatch();
+  private gridSizeSelect!: HTMLSelectElement;
+  private difficultySelect!: HTMLSelectElement;
+  private fieldSelect!: HTMLSelectElement;
+  private shareButton: HTMLButtonElement;
+  private playbackButton: HTMLButtonElement | null = null;
+  private playbackLabel: string = '';
+  private playbackRun: number = 0;
+  private playbackOnStop: (() => void) | null = null;
+  // Input from clicks, swipes, keys and undo/redo, played one move at a time
+  private moveQueue: MoveQueue = new MoveQueue({ duration: MOVE_DURATION });
+  private shareResetTimer: number | undefined;
+  private isDestroyed: boolean = false;
+
+  // Kept so destroy() can remove exactly the listeners that were added
+  private readonly pointerHandler = (e: PointerEvent) => this.handlePointer(e);
+  private readonly pointerEndHandler = (e: PointerEvent) => this.handlePointerEnd(e);
+  private readonly hashChangeHandler = () => this.loadSharedGame();
+  private readonly pageHideHandler = () => this.saveGame();
+  private readonly keyDownHandler = (e: KeyboardEvent) => this.handleKeyDown(e);
+  private readonly tickHandler = () => this.update();
+
+  constructor(container: HTMLElement, options: GameOptions = {}) {
+    this.container = container;
+    this.options = { ...DEFAULT_GAME_OPTIONS, ...options };
+    this.difficulty = this.options.difficulty;
+    this.gameDifficulty = this.options.difficulty;
 
-  constructor() {
     // Initialize puzzle state
-    this.puzzleState = new PuzzleState();
+    const { rows, cols } = this.options.gridSize;
+    this.attachPuzzleState(new PuzzleState(rows, cols));
+
+    // Everything is positioned within the container, which clips the flock to its bounds
+    if (getComputedStyle(container).position === 'static') {
+      container.style.position = 'relative';
+    }
+    container.style.overflow = 'hidden';
+    this.layout = new Layout(container, this.puzzleState.getSize(), this.options.layout);
+    const { width, height } = this.layout.get();
 
     // Create PixiJS application
     this.app = new PIXI.Application({
-      width: window.innerWidth,
-      height: window.innerHeight,
+      width,
+      height,
       backgroundColor: 0xFFE5B4,
       resolution: Math.max(window.devicePixelRatio || 1, 2),
       autoDensity: true,
     });
-    document.body.appendChild(this.app.view as HTMLCanvasElement);
-
-    // Track mouse position
-    this.mousePosition = new Vector(0, 0);
-    window.addEventListener('mousemove', (e: MouseEvent) => {
-      this.mousePosition.x = e.clientX;
-      this.mousePosition.y = e.clientY;
+    const canvas = this.app.view as HTMLCanvasElement;
+    Object.assign(canvas.style, {
+      position: 'absolute',
+      top: '0',
+      left: '0',
+      touchAction: 'none', // Let swipes reach the puzzle instead of scrolling the page
     });
+    container.appendChild(canvas);
 
-    // Create boid container for background simulation
-    const boidContainer = new PIXI.Container();
-    this.app.stage.addChild(boidContainer);
-
-    // Initialize boids for each color
-    const boidsPerColor = 50; // 500 total boids divided among 10 colors
-    const colors: BoidColor[] = [
-      BoidColor.PINK,
-      BoidColor.BLUE,
-      BoidColor.GREEN,
-      BoidColor.PURPLE,
-      BoidColor.ORANGE,
-      BoidColor.CYAN,
-      BoidColor.RED,
-      BoidColor.YELLOW,
-      BoidColor.MAGENTA,
-      BoidColor.TEAL
-    ];
-    colors.forEach(color => {
-      const colorBoids: Boid[] = [];
-      for (let i = 0; i < boidsPerColor; i++) {
-        const boid = new Boid(
-          Math.random() * window.innerWidth,
-          Math.random() * window.innerHeight,
-          color,
-          boidContainer
-        );
-        colorBoids.push(boid);
-      }
-      this.boids.set(color, colorBoids);
-    });
+    // Run the background simulation off the main thread where possible
+    this.flock = createFlockHost(this.getFlockOptions());
+    this.flock.onCelebrationEnd = () => this.endCelebration();
+
+    // Track every pointer; each touch pushes the flock on its own
+    window.addEventListener('pointermove', this.pointerHandler);
+    window.addEventListener('pointerdown', this.pointerHandler);
+    window.addEventListener('pointerup', this.pointerEndHandler);
+    window.addEventListener('pointercancel', this.pointerEndHandler);
+
+    // Background layer, redrawn from the latest flock snapshot every frame
+    this.boidLayer = new BoidLayer(this.options.boidsPerColor * BOID_COLORS.length);
+    this.app.stage.addChild(this.boidLayer);
 
     // Create tiles container
-    const tilesContainer = new PIXI.Container();
-    const tileDimensions = calculateTileDimensions();
-    tilesContainer.position.set(
-      (window.innerWidth - (GRID_COLS * (tileDimensions.width + GAP) - GAP)) / 2,
-      (window.innerHeight - (GRID_ROWS * (tileDimensions.height + GAP) - GAP)) / 2
-    );
-    this.app.stage.addChild(tilesContainer);
+    this.tilesContainer = new PIXI.Container();
+    this.app.stage.addChild(this.tilesContainer);
 
     // Create puzzle tiles
-    tileData.forEach(data => {
-      const tile = new PuzzleTile(data.id, data.correctRow, data.correctCol);
-      tile.setTilePosition(data.correctRow, data.correctCol);
-      
-      // Listen for tile click events
-      tile.on('tileclick', (tile: PuzzleTile) => this.handleTileClick(tile));
-      
-      tilesContainer.addChild(tile);
-      this.tiles.push(tile);
-    });
+    this.createTiles();
 
-    // Handle window resize
-    window.addEventListener('resize', this.onResize.bind(this));
+    // Follow the container's size
+    this.layout.onChange = layout => this.applyLayout(layout);
 
-    // Create shuffle button
-    this.createShuffleButton();
+    // Check the board against the puzzle state whenever queued moves have all played
+    this.moveQueue.onIdle = () => this.verifyTiles();
 
-    // Start the animation loop
-    this.app.ticker.add(this.update.bind(this));
+    // Create grid size picker, history and solver controls and shuffle button
+    this.controlBar = new ControlBar(container);
+    this.createGridSizePicker();
+    this.createFieldPicker();
+    this.controlBar.addButton('Undo', () => this.handleUndo(), 'undo-button');
+    this.controlBar.addButton('Redo', () => this.handleRedo(), 'redo-button');
+    this.replayButton = this.controlBar.addButton('Replay', () => this.handleReplay(), 'replay-button');
+    this.createReplaySpeedPicker();
+    this.controlBar.addButton('Hint', () => this.handleHint(), 'hint-button');
+    this.autoSolveButton = this.controlBar.addButton('Auto-solve', () => this.handleAutoSolve(), 'auto-solve-button');
+    this.createDifficultyPicker();
+    this.controlBar.addButton('Daily', () => this.handleDaily(), 'daily-button');
+    this.controlBar.addButton('Shuffle', () => this.handleShuffle(), 'shuffle-button');
+    this.shareButton = this.controlBar.addButton('Share', () => this.handleShare(), 'share-button');
 
-    // Add keyboard listener to toggle flow pattern
-    window.addEventListener('keydown', (e: KeyboardEvent) => {
-      if (e.key === ' ') { // Space bar to toggle
-        this.isCircularFlow = !this.isCircularFlow;
-        console.log(`Switched to ${this.isCircularFlow ? 'circular' : 'directional'} flow`);
-      }
+    // Create move counter and timer display
+    this.hud = new Hud(container);
+
+    // Create live flocking controls for each color group
+    this.tuningPanel = new TuningPanel(container, BOID_COLORS, (color, config) => this.flock.setConfig(color, config));
+    this.simulationControls = new SimulationControls(container, this.flock, {
+      timeScales: TIME_SCALES,
+      getFlockOptions: () => this.getFlockOptions(),
+      // A new flock has no celebration running
+      onRestart: () => this.endCelebration(),
     });
+
+    // Resume a shared board from the URL, or the last game played in this browser
+    this.restoreGame();
+    if (this.options.useUrlHash) {
+      window.addEventListener('hashchange', this.hashChangeHandler);
+    }
+    window.addEventListener('pagehide', this.pageHideHandler);
+
+    // Start the animation loop
+    this.app.ticker.add(this.tickHandler);
+
+    // Add keyboard listener to toggle flow pattern and undo/redo moves
+    if (this.options.keyboard) {
+      window.addEventListener('keydown', this.keyDownHandler);
+    }
+  }
+
+  // Unmount the game, releasing every listener, tween, timer, overlay and the flock worker.
+  // The game in progress is saved first so the next mount can resume it.
+  public destroy(): void {
+    if (this.isDestroyed) return;
+    this.isDestroyed = true;
+
+    this.stopPlayback();
+    this.moveQueue.clear();
+    this.moveQueue.onIdle = null;
+    this.saveGame();
+    this.puzzleState.removeAllListeners();
+
+    window.removeEventListener('pointermove', this.pointerHandler);
+    window.removeEventListener('pointerdown', this.pointerHandler);
+    window.removeEventListener('pointerup', this.pointerEndHandler);
+    window.removeEventListener('pointercancel', this.pointerEndHandler);
+    window.removeEventListener('hashchange', this.hashChangeHandler);
+    window.removeEventListener('pagehide', this.pageHideHandler);
+    window.removeEventListener('keydown', this.keyDownHandler);
+    this.app.ticker.remove(this.tickHandler);
+    this.layout.destroy();
+    clearTimeout(this.shareResetTimer);
+
+    this.destroyTiles();
+    this.controlBar.destroy();
+    this.hud.destroy();
+    this.tuningPanel?.destroy();
+    this.simulationControls.destroy();
+    this.flock.destroy();
+    this.puzzleHost.destroy();
+
+    // Also removes the canvas; the boid texture is shared between mounts so it is kept
+    this.app.destroy(true, { children: true });
   }
 
   private handleTileClick(tile: PuzzleTile): void {
-    const [tileRow, tileCol] = this.puzzleState.findTilePosition(tile.id) || [0, 0];
-    
-    if (this.puzzleState.canMove(tileRow, tileCol)) {
-      // Get empty slot position
-      const [emptyRow, emptyCol] = this.puzzleState.findEmptySlot();
-      
-      // Update puzzle state
-      this.puzzleState.moveTile(tileRow, tileCol);
-      
-      // Find the empty tile (id 8)
-      const emptyTile = this.tiles.find(t => t.id === 8);
-      if (emptyTile) {
-        // Move the empty tile to the clicked tile's position
-        emptyTile.animateToPosition(tileRow, tileCol);
-        // Move the clicked tile to the empty position
-        tile.animateToPosition(emptyRow, emptyCol);
+    // Ignore clicks while a solution or replay is playing, or a tile is held
+    if (this.isPlayingBack() || this.isDragging()) return;
+
+    this.moveQueue.push(duration => {
+      const tilePosition = this.puzzleState.findTilePosition(tile.id);
+      if (!tilePosition) return Promise.resolve(); // The empty slot's tile is not part of the logical grid
+
+      // Any tile in line with the gap pushes the whole run between them
+      this.puzzleState.slideTiles(tilePosition[0], tilePosition[1]);
+      return this.showState(duration);
+    });
+  }
+
+  // The gap a tile may be dragged into: only a tile right next to it, one at a time,
+  // and not while earlier moves are still playing
+  private getDragTarget(tile: PuzzleTile): [number, number] | null {
+    if (this.isPlayingBack() || this.isDragging() || !this.moveQueue.isIdle()) return null;
+
+    const tilePosition = this.puzzleState.findTilePosition(tile.id);
+    if (!tilePosition || !this.puzzleState.canMove(tilePosition[0], tilePosition[1])) return null;
+    return this.puzzleState.findEmptySlot();
+  }
+
+  // A dragged tile was let go over the gap; only now does the move happen
+  // The snap keeps the drag's momentum rather than the queue's pace
+  private handleTileDrop(tile: PuzzleTile, duration: number): void {
+    this.moveQueue.push(() => {
+      // If the board changed under the drag the move fails, and the tile goes back instead
+      const tilePosition = this.puzzleState.findTilePosition(tile.id);
+      if (tilePosition) {
+        this.puzzleState.moveTile(tilePosition[0], tilePosition[1]);
       }
-      
-      // Check if puzzle is solved
-      if (this.puzzleState.isSolved()) {
-        console.log('Puzzle solved!');
-        // TODO: Add puzzle completion effects
+      return this.showState(duration);
+    });
+  }
+
+  private isDragging(): boolean {
+    return this.tiles.some(tile => tile.isDragging());
+  }
+
+  // Slide the tile that sits on the opposite side of the gap from the direction of travel
+  private handleDirection(screenDirection: Direction): void {
+    if (this.isPlayingBack() || this.isDragging()) return;
+
+    // Keys and swipes go by the screen, which may show the board turned on its side
+    const direction = this.layout.get().toGridDirection(screenDirection);
+    this.moveQueue.push(duration => {
+      const tilePosition = this.puzzleState.findTileForDirection(direction);
+      if (!tilePosition) return Promise.resolve();
+      this.puzzleState.moveTile(tilePosition[0], tilePosition[1]);
+      return this.showState(duration);
+    });
+  }
+
+  // Keep stats and the saved game in step with the puzzle state through its events
+  private attachPuzzleState(state: PuzzleState): void {
+    this.puzzleState?.removeAllListeners();
+    this.puzzleState = state;
+
+    state.on('move', () => this.handlePlayerMove());
+    state.on('redo', () => this.handlePlayerMove());
+    state.on('undo', () => this.saveGame());
+    state.on('solved', () => this.handleSolved());
+    state.on('shuffle', () => this.saveGame());
+    state.on('reset', () => this.saveGame());
+  }
+
+  // Moves by the player (or the solver on their behalf) run the clock and get saved
+  private handlePlayerMove(): void {
+    if (!this.puzzleState.isSolved()) {
+      // The timer starts with the first move of a game
+      this.stopwatch.start();
+      // A message about the solver stays up while it plays its solution
+      if (!this.isPlayingBack()) {
+        this.hudMessage = '';
       }
     }
+    this.saveGame();
   }
 
-  private applyCircularFlow(boid: Boid): void {
-    const dx = this.mousePosition.x - boid.position.x;
-    const dy = this.mousePosition.y - boid.position.y;
-    const distanceSquared = dx * dx + dy * dy;
-    
-    if (distanceSquared < 22500) { // 150 * 150
-      // Calculate the angle between boid's velocity and direction to cursor
-      const toCursor = new Vector(dx, dy);
-      const angle = toCursor.angleBetween(boid.velocity);
-      
-      // Create tangential force (perpendicular to direction to cursor)
-      const tangent = new Vector(-dy, dx);
-      tangent.normalize();
-      
-      // Determine which way to flow based on which side of the cursor the boid is approaching from
-      if (angle < 0) {
-        tangent.mult(-1); // Reverse direction if needed
-      }
-      
-      // Smooth exponential falloff
-      const distance = Math.sqrt(distanceSquared);
-      const strength = Math.exp(-distance / 100) * 0.3; // 75 is the "half-life" distance
-      tangent.mult(strength);
-      
-      boid.applyForce(tangent);
+  private handleSolved(): void {
+    this.stopwatch.stop();
+    this.startCelebration();
+
+    // Only shuffled games the player finished on their own count towards personal bests
+    if (this.isRecorded || this.isAssisted || this.seed === null) {
+      this.hudMessage = 'Solved!';
+      this.saveGame();
+      return;
     }
+    this.isRecorded = true;
+
+    const outcome = this.leaderboard.record(this.puzzleState.getSize(), this.gameDifficulty, {
+      timeMs: this.stopwatch.getElapsed(),
+      moves: this.puzzleState.getMoveCount(),
+      optimalMoves: this.optimalMoves,
+    });
+    const records = [
+      outcome.isBestTime ? 'best time' : '',
+      outcome.isFewestMoves ? 'fewest moves' : '',
+    ].filter(Boolean);
+    this.hudMessage = records.length > 0 ? `Solved! New ${records.join(' and ')}` : 'Solved!';
+    this.saveGame();
   }
 
-  private applyDirectionalFlow(boid: Boid): void {
-    const dx = this.mousePosition.x - boid.position.x;
-    const dy = this.mousePosition.y - boid.position.y;
-    const distanceSquared = dx * dx + dy * dy;
-    
-    if (distanceSquared < 22500) { // 150 * 150
-      // Calculate the angle between boid's velocity and direction to cursor
-      const toCursor = new Vector(dx, dy);
-      const angle = toCursor.angleBetween(boid.velocity);
-      
-      // If boid is moving away from cursor (angle > 90 degrees), apply scatter force
-      if (Math.abs(angle) > Math.PI / 2) {
-        // Create a scatter force in the direction of current velocity
-        const scatter = boid.velocity.copy();
-        scatter.normalize();
-        
-        // Smooth exponential falloff for scatter
-        const distance = Math.sqrt(distanceSquared);
-        const strength = Math.exp(-distance / 50) * 0.5; // 75 is the "half-life" distance
-        scatter.mult(strength);
-        
-        boid.applyForce(scatter);
+  // Let the flock react to the solved board, from the center of the screen
+  private startCelebration(): void {
+    const { width, height } = this.layout.get();
+    this.flock.celebrate(width / 2, height / 2);
+    this.isCelebrating = true;
+    this.tiles.forEach(tile => tile.setCelebrating(true));
+  }
+
+  private stopCelebration(): void {
+    if (!this.isCelebrating) return;
+    this.flock.stopCelebration();
+    this.endCelebration();
+  }
+
+  // The simulation hands the flock back to the cursor on its own once the effect has played out
+  private endCelebration(): void {
+    if (!this.isCelebrating) return;
+    this.isCelebrating = false;
+    this.tiles.forEach(tile => tile.setCelebrating(false));
+  }
+
+  // Show the puzzle state's board, sliding only the tiles that are out of place
+  private showState(duration: number = MOVE_DURATION): Promise<void> {
+    return this.showGrid(this.puzzleState.getGrid(), duration);
+  }
+
+  // Every change to the board reaches the tiles through here, instantly when duration is 0
+  private showGrid(grid: TileId[][], duration: number): Promise<void> {
+    return this.reconciler.reconcile(grid, duration);
+  }
+
+  private handleUndo(): void {
+    if (this.isPlayingBack()) return;
+    this.moveQueue.push(duration => {
+      this.puzzleState.undo();
+      return this.showState(duration);
+    });
+  }
+
+  private handleRedo(): void {
+    if (this.isPlayingBack()) return;
+    this.moveQueue.push(duration => {
+      this.puzzleState.redo();
+      return this.showState(duration);
+    });
+  }
+
+  private handleKeyDown(e: KeyboardEvent): void {
+    // Leave keys alone while the player is typing into a panel field
+    const isTyping = e.target instanceof HTMLSelectElement ||
+      e.target instanceof HTMLInputElement ||
+      e.target instanceof HTMLTextAreaElement;
+    if (isTyping) return;
+
+    if (e.key === ' ') { // Space bar to cycle through the interaction fields
+      const fields = getFields();
+      const index = fields.findIndex(field => field.name === this.fieldName);
+      this.setField(fields[(index + 1) % fields.length].name);
+      return;
+    }
+
+    // P pauses the flock and . steps it one tick at a time
+    if (e.key === 'p' || e.key === 'P') {
+      this.simulationControls.togglePause();
+      return;
+    }
+    if (e.key === '.') {
+      this.simulationControls.step();
+      return;
+    }
+
+    // Arrow keys and WASD slide a tile in that direction
+    const direction = DIRECTION_KEYS[e.key];
+    if (direction && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      e.preventDefault();
+      this.handleDirection(direction);
+      return;
+    }
+
+    // Ctrl+Z to undo, Ctrl+Shift+Z to redo (Cmd on macOS)
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        this.handleRedo();
       } else {
-        // Create a charge force towards the cursor
-        const charge = toCursor.copy();
-        charge.normalize();
-        
-        // Smooth exponential falloff for charge
-        const distance = Math.sqrt(distanceSquared);
-        const strength = Math.exp(-distance / 50) * 0.5; // 75 is the "half-life" distance
-        charge.mult(strength);
-        
-        boid.applyForce(charge);
+        this.handleUndo();
       }
     }
   }
 
+  // Solve the board in the puzzle worker. Null if no solution was found, if another search is
+  // still running, or if the board changed while this one ran.
+  private async findSolution(): Promise<Solution | null> {
+    if (this.isSolving) return null;
+
+    this.isSolving = true;
+    const grid = this.puzzleState.getGrid();
+    const solution = await this.puzzleHost.solve(grid);
+    this.isSolving = false;
+    if (this.isDestroyed || !isSameGrid(grid, this.puzzleState.getGrid())) return null;
+
+    if (!solution) {
+      this.hudMessage = 'No solution found';
+    }
+    return solution;
+  }
+
+  private async handleHint(): Promise<void> {
+    if (this.isPlayingBack()) return;
+
+    const solution = await this.findSolution();
+    if (!solution || solution.moves.length === 0 || this.isPlayingBack()) return;
+
+    // A hinted game doesn't go on the leaderboard either
+    this.isAssisted = true;
+    this.saveGame();
+    if (!solution.isOptimal) {
+      this.hudMessage = 'Hint is from a longer solution, not the shortest';
+    }
+    this.reconciler.get(solution.moves[0])?.showHint();
+  }
+
+  private async handleAutoSolve(): Promise<void> {
+    // A second press stops the playback
+    if (this.isPlayingBack()) {
+      this.stopPlayback();
+      return;
+    }
+
+    const solution = await this.findSolution();
+    if (!solution || solution.moves.length === 0 || this.isPlayingBack()) return;
+
+    // A game the solver finished doesn't go on the leaderboard, even if it is stopped and reloaded
+    this.isAssisted = true;
+    this.saveGame();
+    if (!solution.isOptimal) {
+      this.hudMessage = `Solving in ${solution.moves.length} moves, not the fewest`;
+    }
+    this.runPlayback(this.autoSolveButton, solution.moves.map(tileId => () => {
+      const [row, col] = this.puzzleState.findTilePosition(tileId)!;
+      this.puzzleState.moveTile(row, col);
+      return this.showState(AUTO_SOLVE_MOVE_DURATION);
+    }));
+  }
+
+  // Play the finished game again from its shuffled start position
+  private handleReplay(): void {
+    if (this.isPlayingBack()) {
+      this.stopPlayback();
+      return;
+    }
+    if (!this.puzzleState.isSolved() || !this.puzzleState.canUndo()) return;
+
+    // Rewind a copy so the game itself (and its listeners) never sees the replayed moves
+    const replay = this.puzzleState.clone();
+    const stepCount = replay.getHistory().length;
+    while (replay.undo());
+    this.showGrid(replay.getGrid(), 0);
+
+    const duration = MOVE_DURATION / this.replaySpeed;
+    const steps = Array.from({ length: stepCount }, () => () => {
+      replay.redo();
+      return this.showGrid(replay.getGrid(), duration);
+    });
+
+    // Whether it finishes or is stopped, put the tiles back where the game left them
+    this.runPlayback(this.replayButton, steps, () => this.showState(0));
+  }
+
+  // Run animated steps one after another, blocking input until they finish or are stopped
+  private async runPlayback(
+    button: HTMLButtonElement,
+    steps: Array<() => Promise<void>>,
+    onStop: (() => void) | null = null
+  ): Promise<void> {
+    this.stopPlayback();
+    this.moveQueue.clear();
+    const run = this.playbackRun;
+    this.playbackButton = button;
+    this.playbackOnStop = onStop;
+    this.playbackLabel = button.textContent ?? '';
+    button.textContent = 'Stop';
+
+    for (const step of steps) {
+      if (run !== this.playbackRun) return;
+      await step();
+    }
+
+    if (run === this.playbackRun) {
+      this.stopPlayback();
+    }
+  }
+
+  private stopPlayback(): void {
+    this.playbackRun++;
+    if (this.playbackButton) {
+      this.playbackButton.textContent = this.playbackLabel;
+      this.playbackButton = null;
+    }
+
+    const onStop = this.playbackOnStop;
+    this.playbackOnStop = null;
+    onStop?.();
+  }
+
+  private isPlayingBack(): boolean {
+    return this.playbackButton !== null;
+  }
+
   private update() {
-    // Update boid positions for each color group
-    this.boids.forEach((colorBoids) => {
-      colorBoids.forEach(boid => {
-        boid.update(colorBoids); // Only pass boids of the same color
-        
-        // Apply cursor interaction based on selected pattern
-        if (this.isCircularFlow) {
-          this.applyCircularFlow(boid);
-        } else {
-          this.applyDirectionalFlow(boid);
-        }
-      });
+    this.hud.update({
+      moves: this.puzzleState.getMoveCount(),
+      elapsedMs: this.stopwatch.getElapsed(),
+      optimalMoves: this.optimalMoves,
+      best: this.leaderboard.getEntry(this.puzzleState.getSize(), this.gameDifficulty),
+      message: this.hudMessage,
     });
 
+    // Let real time pass for the flock, which moves in fixed ticks whatever the frame rate;
+    // the worker answers with a new snapshot between frames
+    this.flock.step(this.app.ticker.deltaMS);
+    const snapshot = this.flock.getSnapshot();
+    this.drawBoids(snapshot.data, snapshot.count);
+
     // Update boid positions in each tile viewport
+    this.tiles.forEach(tile => tile.updateBoids(snapshot));
+
+    this.updateTileObstacles(this.simulationControls.getSimulatedMs(this.app.ticker.deltaMS));
+  }
+
+  // Sliding tiles push the boids in their path; the tile id doubles as the obstacle id
+  private updateTileObstacles(simulatedMs: number): void {
+    // Tiles move in real time but obstacles by the tick, so a frame's movement is spread over the
+    // ticks it covers; in slow motion that is a fraction of a tick, and none while paused
+    const perTick = simulatedMs > 0 ? TICK_MS / simulatedMs : 0;
+
+    const emptyTileId = getEmptyTileId(this.puzzleState.getSize());
+    const stillMoving = new Set<number>();
+
     this.tiles.forEach(tile => {
-      // Get all boids for the viewport
-      const allBoids = Array.from(this.boids.values()).flat();
-      tile.updateBoids(allBoids);
+      // The empty slot jumps back behind the moved tile, which shouldn't disturb anything
+      if (tile.id === emptyTileId || !tile.isMoving()) return;
+
+      const rect = tile.getScreenRect();
+      const previous = this.movingTiles.get(tile.id) ?? rect;
+      this.flock.setObstacle({
+        id: tile.id,
+        shape: 'rect',
+        ...rect,
+        vx: (rect.x - previous.x) * perTick,
+        vy: (rect.y - previous.y) * perTick,
+      });
+      this.movingTiles.set(tile.id, { x: rect.x, y: rect.y });
+      stillMoving.add(tile.id);
     });
-  }
 
-  private onResize() {
-    this.app.renderer.resize(window.innerWidth, window.innerHeight);
+    this.movingTiles.forEach((_, id) => {
+      if (stillMoving.has(id)) return;
+      this.flock.removeObstacle(id);
+      this.movingTiles.delete(id);
+    });
+  }
 
-    // Center the tiles container
-    if (this.app.stage.children[1]) {
-      const tilesContainer = this.app.stage.children[1];
-      const tileDimensions = calculateTileDimensions();
-      tilesContainer.position.set(
-        (window.innerWidth - (GRID_COLS * (tileDimensions.width + GAP) - GAP)) / 2,
-        (window.innerHeight - (GRID_ROWS * (tileDimensions.height + GAP) - GAP)) / 2
+  private drawBoids(data: Float32Array, count: number): void {
+    this.boidLayer.begin();
+    for (let i = 0; i < count; i++) {
+      const offset = i * BOID_STRIDE;
+      this.boidLayer.add(
+        data[offset], data[offset + 1],
+        data[offset + 2], data[offset + 3],
+        data[offset + 4], data[offset + 5]
       );
     }
+    this.boidLayer.end();
+  }
+
+  // Resize the canvas, the flock's world and every tile to a new layout
+  private applyLayout(layout: BoardLayout): void {
+    this.app.renderer.resize(layout.width, layout.height);
+    this.flock.setSize(layout.width, layout.height);
+    this.tilesContainer.position.set(layout.boardX, layout.boardY);
+    this.tiles.forEach(tile => tile.setLayout(layout));
+  }
+
+  private createTiles(): void {
+    const layout = this.layout.get();
+    this.tilesContainer.position.set(layout.boardX, layout.boardY);
+
+    createTileData(layout.gridSize).forEach(data => {
+      const tile = new PuzzleTile(data.id, data.correctRow, data.correctCol, layout, this.container);
+      tile.setTilePosition(data.correctRow, data.correctCol);
+      
+      // Listen for tile click, swipe and drag events
+      tile.on('tileclick', (tile: PuzzleTile) => this.handleTileClick(tile));
+      tile.on('tileswipe', (direction: Direction) => this.handleDirection(direction));
+      tile.on('tiledrop', (tile: PuzzleTile, duration: number) => this.handleTileDrop(tile, duration));
+      tile.getDragTarget = () => this.getDragTarget(tile);
+      
+      this.tilesContainer.addChild(tile);
+      this.tiles.push(tile);
+    });
+    this.reconciler = new TileReconciler(this.tiles, layout.gridSize);
   }
 
-  private createShuffleButton(): void {
-    this.shuffleButton = document.createElement('button');
-    this.shuffleButton.textContent = 'Shuffle';
-    this.shuffleButton.className = 'shuffle-button';
-    
-    // Style the button
-    Object.assign(this.shuffleButton.style, {
-      position: 'fixed',
-      bottom: '20px',
-      right: '20px',
-      padding: '10px 20px',
-      backgroundColor: 'rgba(0, 0, 0, 0.3)',
-      color: '#FFE5B4',
-      border: 'none',
-      borderRadius: '6px',
-      fontSize: '16px',
-      fontWeight: '600',
-      cursor: 'pointer',
-      fontFamily: 'Arial, sans-serif',
-      zIndex: '1000',
-      transition: 'background-color 0.2s',
+  private destroyTiles(): void {
+    this.tiles.forEach(tile => tile.destroy());
+    this.tiles = [];
+  }
+
+  // Replace the board with a solved puzzle of a different size
+  public setGridSize(rows: number, cols: number): void {
+    this.boardRequest++;
+    this.stopPlayback();
+    this.moveQueue.clear();
+    this.stopCelebration();
+    this.attachPuzzleState(new PuzzleState(rows, cols));
+    this.seed = null;
+    this.optimalMoves = null;
+    this.resetGameStats();
+    this.gridSizeSelect.value = `${rows}x${cols}`;
+    this.destroyTiles();
+    this.layout.setGridSize({ rows, cols });
+    this.createTiles();
+    this.saveGame();
+  }
+
+  private createGridSizePicker(): void {
+    const options: SelectOption[] = GRID_SIZE_OPTIONS.map(size => ({
+      value: `${size.rows}x${size.cols}`,
+      label: `${size.rows}×${size.cols}`,
+    }));
+    const { rows, cols } = this.puzzleState.getSize();
+
+    this.gridSizeSelect = this.controlBar.addSelect(options, `${rows}x${cols}`, value => {
+      const [newRows, newCols] = value.split('x').map(Number);
+      this.setGridSize(newRows, newCols);
     });
+  }
 
-    // Add hover effect
-    this.shuffleButton.onmouseover = () => {
-      if (this.shuffleButton) {
-        this.shuffleButton.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
-      }
-    };
-    this.shuffleButton.onmouseout = () => {
-      if (this.shuffleButton) {
-        this.shuffleButton.style.backgroundColor = 'rgba(0, 0, 0, 0.3)';
-      }
+  // Settings for a new flock, matching the current layout, tuning and field
+  private getFlockOptions(): FlockSimulationOptions {
+    const { width, height } = this.layout.get();
+    return {
+      width,
+      height,
+      boidsPerColor: this.options.boidsPerColor,
+      relationships: DEFAULT_RELATIONSHIP_RULES,
+      configs: Array.from(this.tuningPanel?.getConfigs() ?? [], ([color, config]) => ({ color, config })),
+      field: this.fieldName,
     };
+  }
+
+  // The flock's world starts at the container's top-left corner, wherever the page has put it
+  private handlePointer(e: PointerEvent): void {
+    const bounds = this.container.getBoundingClientRect();
+    this.flock.setPointer(e.pointerId, e.clientX - bounds.left, e.clientY - bounds.top);
+  }
+
+  // A mouse keeps pushing the flock from wherever it rests; a lifted finger stops
+  private handlePointerEnd(e: PointerEvent): void {
+    if (e.pointerType !== 'mouse') {
+      this.flock.removePointer(e.pointerId);
+    }
+  }
+
+  private setField(name: string): void {
+    this.fieldName = name;
+    this.fieldSelect.value = name;
+    this.flock.setField(name);
+  }
+
+  private createFieldPicker(): void {
+    const options: SelectOption[] = getFields().map(field => ({ value: field.name, label: field.label }));
+    this.fieldSelect = this.controlBar.addSelect(options, this.fieldName, value => this.setField(value));
+  }
 
-    // Add click handler
-    this.shuffleButton.onclick = () => this.handleShuffle();
+  private createDifficultyPicker(): void {
+    const options: SelectOption[] = DIFFICULTIES.map(difficulty => ({
+      value: difficulty,
+      label: difficulty[0].toUpperCase() + difficulty.slice(1),
+    }));
 
-    // Add to document
-    document.body.appendChild(this.shuffleButton);
+    this.difficultySelect = this.controlBar.addSelect(options, this.difficulty, value => {
+      this.difficulty = value as Difficulty;
+    });
+  }
+
+  private createReplaySpeedPicker(): void {
+    const options: SelectOption[] = REPLAY_SPEED_OPTIONS.map(speed => ({
+      value: speed.toString(),
+      label: `${speed}×`,
+    }));
+
+    this.controlBar.addSelect(options, this.replaySpeed.toString(), value => {
+      this.replaySpeed = Number(value);
+    });
   }
 
   private handleShuffle(): void {
-    // Shuffle the puzzle state
-    this.puzzleState.shuffle();
+    this.startGame(Random.randomSeed());
+  }
 
-    // Update visual positions of all tiles
-    const grid = this.puzzleState.getGrid();
-    for (let row = 0; row < GRID_ROWS; row++) {
-      for (let col = 0; col < GRID_COLS; col++) {
-        const tileId = grid[row][col];
-        // Find the tile that should be at this position
-        const tile = this.tiles.find(t => t.id === tileId);
-        if (tile) {
-          tile.animateToPosition(row, col);
-        }
-      }
+  // Everyone gets the same board for a given day, grid size and difficulty
+  private handleDaily(): void {
+    this.startGame(getDailySeed());
+  }
+
+  // Shuffle the puzzle state to a board of the selected difficulty generated from the seed.
+  // The board is generated in the puzzle worker; the current game carries on until it arrives.
+  public async startGame(seed: number, difficulty: Difficulty = this.difficulty): Promise<void> {
+    const request = ++this.boardRequest;
+    this.hudMessage = 'Shuffling…';
+    const puzzle = await this.puzzleHost.generate(this.puzzleState.getSize(), seed, difficulty);
+    if (this.isDestroyed || request !== this.boardRequest) return;
+    if (!puzzle) {
+      this.hudMessage = 'Could not generate a puzzle';
+      return;
     }
 
-    // Ensure empty tile is visible and in correct position
-    const emptyTile = this.tiles.find(t => t.id === 8);
-    if (emptyTile) {
-      emptyTile.alpha = 0.5; // Make empty tile semi-transparent
-      const [emptyRow, emptyCol] = this.puzzleState.findEmptySlot();
-      emptyTile.animateToPosition(emptyRow, emptyCol);
+    this.stopPlayback();
+    this.moveQueue.clear();
+    this.stopCelebration();
+    this.seed = puzzle.seed;
+    this.optimalMoves = puzzle.optimalMoves;
+    this.gameDifficulty = difficulty;
+    this.resetGameStats();
+    this.puzzleState.dealShuffled(puzzle.grid);
+
+    // Deal the tiles once any move still playing has finished, rather than on top of it
+    this.moveQueue.push(() => this.showState());
+  }
+
+  private resetGameStats(elapsedMs: number = 0): void {
+    this.stopwatch.reset(elapsedMs);
+    this.isAssisted = false;
+    this.isRecorded = false;
+    this.hudMessage = '';
+  }
+
+  private getSnapshot(): PuzzleSnapshot {
+    return {
+      grid: this.puzzleState.getGrid(),
+      moveCount: this.puzzleState.getMoveCount(),
+      elapsedMs: Math.round(this.stopwatch.getElapsed()),
+      seed: this.seed,
+      difficulty: this.gameDifficulty,
+      optimalMoves: this.optimalMoves,
+      isAssisted: this.isAssisted,
+    };
+  }
+
+  private saveGame(): void {
+    if (this.options.persist) {
+      saveSnapshot(this.getSnapshot());
+    }
+  }
+
+  // Load a game from the URL hash if one was shared, otherwise from local storage
+  private restoreGame(): void {
+    if (this.loadSharedGame()) return;
+
+    const snapshot = this.options.persist ? loadSnapshot() : null;
+    if (snapshot) {
+      this.loadGame(snapshot);
+    }
+  }
+
+  // Open the board shared through the URL hash, if the hash holds one; other hashes
+  // (e.g. in-page anchors) leave the game in progress alone
+  private loadSharedGame(): boolean {
+    const shared = this.options.useUrlHash ? decodeSnapshotHash(window.location.hash) : null;
+    if (!shared) return false;
+
+    // Drop the hash so reloading resumes local progress instead of the shared board
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    // The sender's moves and time aren't this player's, and without a seed the board is
+    // kept off the leaderboard, since it may already be partly solved
+    this.loadGame({ ...shared, moveCount: 0, elapsedMs: 0, seed: null, optimalMoves: null });
+    return true;
+  }
+
+  public loadGame(snapshot: PuzzleSnapshot): void {
+    const rows = snapshot.grid.length;
+    const cols = snapshot.grid[0].length;
+
+    // A shared link can name any size; only boards the picker offers are loaded
+    if (!GRID_SIZE_OPTIONS.some(size => size.rows === rows && size.cols === cols)) {
+      console.warn(`Ignoring saved puzzle with unsupported size ${rows}×${cols}`);
+      return;
+    }
+
+    // Check the board on a scratch state first so a bad snapshot leaves the current game alone
+    try {
+      new PuzzleState(rows, cols).setGrid(snapshot.grid);
+    } catch (error) {
+      console.warn('Ignoring invalid saved puzzle', error);
+      return;
+    }
+
+    if (rows !== this.puzzleState.getRows() || cols !== this.puzzleState.getCols()) {
+      this.setGridSize(rows, cols);
     }
+
+    this.boardRequest++;
+    this.stopPlayback();
+    this.moveQueue.clear();
+    this.stopCelebration();
+    this.seed = snapshot.seed;
+    this.optimalMoves = snapshot.optimalMoves;
+    this.difficulty = snapshot.difficulty;
+    this.gameDifficulty = snapshot.difficulty;
+    this.difficultySelect.value = snapshot.difficulty;
+    this.resetGameStats(snapshot.elapsedMs);
+    this.isAssisted = snapshot.isAssisted;
+    this.puzzleState.setGrid(snapshot.grid, snapshot.moveCount);
+    // A game saved after it was solved has already been recorded
+    this.isRecorded = this.puzzleState.isSolved();
+    this.showState(0);
+  }
+
+  // Copy a link that opens the current board for someone else
+  private async handleShare(): Promise<void> {
+    const url = window.location.href.split('#')[0] + encodeSnapshotHash(this.getSnapshot());
+
+    try {
+      await navigator.clipboard.writeText(url);
+      if (this.isDestroyed) return;
+      this.shareButton.textContent = 'Copied!';
+      clearTimeout(this.shareResetTimer);
+      this.shareResetTimer = window.setTimeout(() => {
+        this.shareButton.textContent = 'Share';
+      }, 1500);
+    } catch {
+      // Clipboard access can be denied, so fall back to letting the user copy it
+      window.prompt('Copy this link to share the puzzle', url);
+    }
+  }
+
+  // Every tile should rest exactly on the cell the puzzle state reports once the queue runs dry.
+  // Anything else is a bug in the animations, so report it and put the tile where it belongs.
+  private verifyTiles(): void {
+    if (this.isPlayingBack() || this.isDragging()) return;
+
+    this.reconciler.verify(this.puzzleState.getGrid()).forEach(({ tile, row, col }) => {
+      console.warn(`Tile ${tile.id + 1} ended off its cell (${row}, ${col}); snapped it back`);
+    });
   }
 
   public getView(): HTMLCanvasElement {
     return this.app.view as HTMLCanvasElement;
   }
-} 
\ No newline at end of file
+}
+
+// Mount a game in the container; call destroy() on the result to unmount it again
+export function createGame(container: HTMLElement, options: GameOptions = {}): Game {
+  return new Game(container, options);
+} 
+function isSameGrid(a: TileId[][], b: TileId[][]): boolean {
+  return a.flat().join() === b.flat().join();
+}
@@ -0,0 +1,81 @@
+import { LeaderboardEntry } from '../puzzle/Leaderboard';
+
+export type HudStats = {
+  moves: number;
+  elapsedMs: number;
+  optimalMoves: number | null;
+  best: LeaderboardEntry | null;
+  message: string;
+};
+
+// Format milliseconds as m:ss.t
+export function formatTime(ms: number): string {
+  const tenths = Math.floor(ms / 100);
+  const minutes = Math.floor(tenths / 600);
+  const seconds = Math.floor((tenths % 600) / 10);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${tenths % 10}`;
+}
+
+// On-screen move counter, timer and personal bests, styled like the tile number overlays
+export class Hud {
+  private element: HTMLDivElement;
+  private lines: HTMLDivElement[];
+
+  constructor(parent: HTMLElement) {
+    this.element = document.createElement('div');
+    this.element.className = 'puzzle-hud';
+
+    Object.assign(this.element.style, {
+      position: 'absolute',
+      top: '20px',
+      right: '20px', // Top-left is taken by the first tile's number
+      textAlign: 'right',
+      padding: '10px 20px',
+      backgroundColor: 'rgba(0, 0, 0, 0.3)',
+      color: '#FFE5B4',
+      borderRadius: '6px',
+      fontSize: '16px',
+      fontWeight: '600',
+      fontFamily: 'Arial, sans-serif',
+      fontVariantNumeric: 'tabular-nums',
+      pointerEvents: 'none',
+      zIndex: '1000',
+    });
+
+    this.lines = [0, 1, 2, 3].map(() => {
+      const line = document.createElement('div');
+      this.element.appendChild(line);
+      return line;
+    });
+
+    parent.appendChild(this.element);
+  }
+
+  update(stats: HudStats): void {
+    const optimal = stats.optimalMoves !== null ? ` / ${stats.optimalMoves} optimal` : '';
+    this.setLine(0, `Moves: ${stats.moves}${optimal}`);
+    this.setLine(1, `Time: ${formatTime(stats.elapsedMs)}`);
+
+    if (stats.best) {
+      const extra = stats.best.fewestExtraMoves !== null ? ` (+${stats.best.fewestExtraMoves})` : '';
+      this.setLine(2, `Best: ${formatTime(stats.best.bestTimeMs)} · ${stats.best.fewestMoves} moves${extra}`);
+    } else {
+      this.setLine(2, '');
+    }
+
+    this.setLine(3, stats.message);
+  }
+
+  // Only touch the DOM when the text actually changes, since this runs every frame
+  private setLine(index: number, text: string): void {
+    const line = this.lines[index];
+    if (line.textContent !== text) {
+      line.textContent = text;
+      line.style.display = text ? 'block' : 'none';
+    }
+  }
+
+  destroy(): void {
+    this.element.remove();
+  }
+}
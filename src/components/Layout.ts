@@ -0,0 +1,152 @@
+import { Direction, GridSize } from '../puzzle/PuzzleState';
+
+export type Orientation = 'portrait' | 'landscape';
+
+export type LayoutOptions = {
+  gap: number;
+  cornerRadius: number;
+  // Keep tiles square and center the board, instead of stretching the tiles to fill the host
+  squareTiles: boolean;
+};
+
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  gap: 8,
+  cornerRadius: 12,
+  squareTiles: false,
+};
+
+// Tiles never shrink below this, however small the host gets
+const MIN_TILE_SIZE = 1;
+
+// Rows and columns swap on screen when the board is drawn transposed
+const TRANSPOSED_DIRECTIONS: Record<Direction, Direction> = {
+  up: 'left',
+  left: 'up',
+  down: 'right',
+  right: 'down',
+};
+
+// Where the board and its tiles go for one host size and grid size.
+// A board that is longer one way than the other is turned to lie along the host's long side,
+// so a 3×5 board shows three rows in landscape and three columns in portrait.
+export class BoardLayout {
+  readonly width: number;
+  readonly height: number;
+  readonly gridSize: GridSize;
+  readonly orientation: Orientation;
+  readonly transposed: boolean;
+  readonly gap: number;
+  readonly cornerRadius: number;
+  readonly tileWidth: number;
+  readonly tileHeight: number;
+  // Top-left corner of the board within the host
+  readonly boardX: number;
+  readonly boardY: number;
+
+  constructor(width: number, height: number, gridSize: GridSize, options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS) {
+    // A zero-sized host (e.g. not attached yet) still gets a valid layout
+    this.width = Math.max(1, Math.floor(width));
+    this.height = Math.max(1, Math.floor(height));
+    this.gridSize = gridSize;
+    this.orientation = this.width >= this.height ? 'landscape' : 'portrait';
+    this.transposed = gridSize.rows !== gridSize.cols &&
+      (gridSize.cols > gridSize.rows) !== (this.orientation === 'landscape');
+    this.gap = options.gap;
+    this.cornerRadius = options.cornerRadius;
+
+    const { rows, cols } = this.getScreenSize();
+    let tileWidth = Math.floor((this.width - this.gap * (cols + 1)) / cols);
+    let tileHeight = Math.floor((this.height - this.gap * (rows + 1)) / rows);
+    if (options.squareTiles) {
+      tileWidth = tileHeight = Math.min(tileWidth, tileHeight);
+    }
+    this.tileWidth = Math.max(MIN_TILE_SIZE, tileWidth);
+    this.tileHeight = Math.max(MIN_TILE_SIZE, tileHeight);
+
+    this.boardX = (this.width - this.getBoardWidth()) / 2;
+    this.boardY = (this.height - this.getBoardHeight()) / 2;
+  }
+
+  // Rows and columns as drawn, which differ from the grid's when transposed
+  getScreenSize(): GridSize {
+    const { rows, cols } = this.gridSize;
+    return this.transposed ? { rows: cols, cols: rows } : { rows, cols };
+  }
+
+  getBoardWidth(): number {
+    return this.getScreenSize().cols * (this.tileWidth + this.gap) - this.gap;
+  }
+
+  getBoardHeight(): number {
+    return this.getScreenSize().rows * (this.tileHeight + this.gap) - this.gap;
+  }
+
+  // Top-left corner of a grid cell, relative to the board
+  cellPosition(row: number, col: number): { x: number; y: number } {
+    const [screenRow, screenCol] = this.transposed ? [col, row] : [row, col];
+    return {
+      x: screenCol * (this.tileWidth + this.gap),
+      y: screenRow * (this.tileHeight + this.gap),
+    };
+  }
+
+  // Direction a tile travels on screen for a move in the given grid direction, and the reverse
+  toScreenDirection(direction: Direction): Direction {
+    return this.transposed ? TRANSPOSED_DIRECTIONS[direction] : direction;
+  }
+
+  toGridDirection(direction: Direction): Direction {
+    return this.transposed ? TRANSPOSED_DIRECTIONS[direction] : direction;
+  }
+}
+
+// Lays the board out to fit its host element, and again whenever the host changes size
+export class Layout {
+  public onChange: ((layout: BoardLayout) => void) | null = null;
+  private readonly host: HTMLElement;
+  private readonly observer: ResizeObserver;
+  private options: LayoutOptions;
+  private gridSize: GridSize;
+  private current: BoardLayout;
+
+  constructor(host: HTMLElement, gridSize: GridSize, options: Partial<LayoutOptions> = {}) {
+    this.host = host;
+    this.gridSize = gridSize;
+    this.options = { ...DEFAULT_LAYOUT_OPTIONS, ...options };
+    this.current = this.measure();
+
+    this.observer = new ResizeObserver(() => this.update());
+    this.observer.observe(host);
+  }
+
+  get(): BoardLayout {
+    return this.current;
+  }
+
+  setGridSize(gridSize: GridSize): void {
+    this.gridSize = gridSize;
+    this.update(true);
+  }
+
+  setOptions(options: Partial<LayoutOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.update(true);
+  }
+
+  destroy(): void {
+    this.observer.disconnect();
+    this.onChange = null;
+  }
+
+  // Only tell listeners about a new host size, unless the board itself changed
+  private update(force: boolean = false): void {
+    const next = this.measure();
+    if (!force && next.width === this.current.width && next.height === this.current.height) return;
+    this.current = next;
+    this.onChange?.(next);
+  }
+
+  private measure(): BoardLayout {
+    return new BoardLayout(this.host.clientWidth, this.host.clientHeight, this.gridSize, this.options);
+  }
+}
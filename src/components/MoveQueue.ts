@@ -0,0 +1,73 @@
+// One buffered input: applies itself to the puzzle state when its turn comes and resolves
+// once its animation has finished, sliding tiles for the given number of seconds
+export type QueuedMove = (duration: number) => Promise<void>;
+
+export type MoveQueueOptions = {
+  // Seconds per slide while nothing else is waiting
+  duration: number;
+  // Slides never get faster than this, however much input piles up
+  minDuration: number;
+  // Input beyond this many waiting moves is dropped
+  maxPending: number;
+};
+
+export const DEFAULT_MOVE_QUEUE_OPTIONS: MoveQueueOptions = {
+  duration: 0.4,
+  minDuration: 0.08,
+  maxPending: 8,
+};
+
+// Plays tile moves strictly one after another so their animations never overlap.
+// Each move only touches the puzzle state when it starts, so it acts on the board as the
+// player sees it, and the queue speeds up to catch up when input arrives faster than it plays.
+export class MoveQueue {
+  public onIdle: (() => void) | null = null;
+  private readonly options: MoveQueueOptions;
+  private pending: QueuedMove[] = [];
+  private running: boolean = false;
+
+  constructor(options: Partial<MoveQueueOptions> = {}) {
+    this.options = { ...DEFAULT_MOVE_QUEUE_OPTIONS, ...options };
+  }
+
+  // Add a move to play after the ones already waiting; returns false if the queue is full
+  push(move: QueuedMove): boolean {
+    if (this.pending.length >= this.options.maxPending) return false;
+    this.pending.push(move);
+    if (!this.running) {
+      this.run();
+    }
+    return true;
+  }
+
+  // Drop every waiting move; the one playing right now still finishes
+  clear(): void {
+    this.pending = [];
+  }
+
+  isIdle(): boolean {
+    return !this.running;
+  }
+
+  // Slides shrink with every move still waiting behind the one about to play
+  getDuration(): number {
+    const { duration, minDuration } = this.options;
+    return Math.max(minDuration, duration / (1 + this.pending.length));
+  }
+
+  private async run(): Promise<void> {
+    this.running = true;
+    while (this.pending.length > 0) {
+      const move = this.pending.shift()!;
+      const duration = this.getDuration();
+      try {
+        await move(duration);
+      } catch (error) {
+        // One broken move shouldn't leave the rest of the input stuck behind it
+        console.error('Queued move failed', error);
+      }
+    }
+    this.running = false;
+    this.onIdle?.();
+  }
+}
@@ -1,27 +1,37 @@
 import * as PIXI from 'pixi.js';
 import gsap from 'gsap';
-import { Boid } from '../boids/Boid';
-
-// Constants for tile layout
-export const GAP = 8; // Can be adjusted as needed
-export const GRID_ROWS = 3;
-export const GRID_COLS = 3;
-export const CORNER_RADIUS = 12;
-
-// Function to calculate tile dimensions based on screen dimensions
-export function calculateTileDimensions(): { width: number; height: number } {
-  const width = window.innerWidth;
-  const height = window.innerHeight;
-  
-  // Calculate tile dimensions to fit screen with gaps
-  const tileWidth = (width - (GAP * (GRID_COLS + 1))) / GRID_COLS;
-  const tileHeight = (height - (GAP * (GRID_ROWS + 1))) / GRID_ROWS;
-  
-  return {
-    width: Math.floor(tileWidth),
-    height: Math.floor(tileHeight)
-  };
-}
+import { BOID_STRIDE } from '../boids/FlockSimulation';
+import { FlockSnapshot } from '../boids/protocol';
+import { BoidLayer } from './BoidLayer';
+import { GridSize } from '../puzzle/PuzzleState';
+import { BoardLayout } from './Layout';
+
+// Minimum finger travel in pixels before a touch counts as a swipe instead of a tap
+const SWIPE_THRESHOLD = 30;
+
+// A released tile carries on into the gap once it is this far across, or flicked faster than
+// FLICK_SPEED (pixels per millisecond) either way
+const SNAP_PROGRESS = 0.5;
+const FLICK_SPEED = 0.5;
+
+// Slowest a released tile finishes its slide at, and the longest that may take in seconds
+const MIN_SNAP_SPEED = 1;
+const MAX_SNAP_DURATION = 0.3;
+
+// A tile being dragged along its one free axis, in board coordinates
+type Drag = {
+  pointerId: number;
+  start: PIXI.Point;
+  origin: { x: number; y: number };
+  axis: 'x' | 'y';
+  // Signed distance from the tile's cell to the gap along the axis
+  travel: number;
+  // How far it has moved towards the gap so far, between 0 and travel
+  offset: number;
+  // Speed towards the gap in pixels per millisecond, smoothed over the last few moves
+  velocity: number;
+  lastTime: number;
+};
 
 // Type definition for tile data
 export type TileData = {
@@ -30,70 +40,87 @@ export type TileData = {
   correctCol: number;
 };
 
-// Array of tile data for the 3x3 grid (including empty slot)
-export const tileData: TileData[] = [
-  { id: 0, correctRow: 0, correctCol: 0 },
-  { id: 1, correctRow: 0, correctCol: 1 },
-  { id: 2, correctRow: 0, correctCol: 2 },
-  { id: 3, correctRow: 1, correctCol: 0 },
-  { id: 4, correctRow: 1, correctCol: 1 },
-  { id: 5, correctRow: 1, correctCol: 2 },
-  { id: 6, correctRow: 2, correctCol: 0 },
-  { id: 7, correctRow: 2, correctCol: 1 },
-  { id: 8, correctRow: 2, correctCol: 2 }, // Empty slot
-];
+// Tile data for a grid of the given size (including empty slot)
+export function createTileData(gridSize: GridSize): TileData[] {
+  const data: TileData[] = [];
+  for (let row = 0; row < gridSize.rows; row++) {
+    for (let col = 0; col < gridSize.cols; col++) {
+      data.push({ id: row * gridSize.cols + col, correctRow: row, correctCol: col });
+    }
+  }
+  return data;
+}
+
+// The empty slot is drawn as the last tile of the grid
+export function getEmptyTileId(gridSize: GridSize): number {
+  return gridSize.rows * gridSize.cols - 1;
+}
 
 export class PuzzleTile extends PIXI.Container {
   id: number;
   correctRow: number;
   correctCol: number;
   private boidContainer: PIXI.Container;
+  private boidLayer: BoidLayer;
   private htmlElement!: HTMLDivElement;
-  private tileWidth: number;
-  private tileHeight: number;
-
-  constructor(id: number, correctRow: number, correctCol: number) {
+  private readonly overlayParent: HTMLElement;
+  private layout: BoardLayout;
+  private readonly isEmpty: boolean;
+  // Cell the tile sits in, or is sliding to
+  private row: number;
+  private col: number;
+  private boidMask: PIXI.Graphics;
+  private hintOutline: PIXI.Graphics | null = null;
+  private border: PIXI.Graphics;
+  private hoverBackground!: PIXI.Graphics;
+  private interactiveLayer!: PIXI.Graphics;
+  private moveTween: gsap.core.Tween | null = null;
+  // Settles the promise of the slide in progress, however it ends
+  private resolveMove: (() => void) | null = null;
+  private drag: Drag | null = null;
+  // Asked on every press: the gap this tile may be dragged into, or null if it can't move now
+  public getDragTarget: (() => [number, number] | null) | null = null;
+
+  // The number overlay is mounted in overlayParent, next to the canvas
+  constructor(id: number, correctRow: number, correctCol: number, layout: BoardLayout, overlayParent: HTMLElement) {
     super();
     this.id = id;
+    this.overlayParent = overlayParent;
     this.correctRow = correctRow;
     this.correctCol = correctCol;
-    const dimensions = calculateTileDimensions();
-    this.tileWidth = dimensions.width;
-    this.tileHeight = dimensions.height;
+    this.row = correctRow;
+    this.col = correctCol;
+    this.layout = layout;
+    this.isEmpty = id === getEmptyTileId(layout.gridSize);
 
     // Create container for boids
     this.boidContainer = new PIXI.Container();
     this.addChild(this.boidContainer);
+    this.boidLayer = new BoidLayer();
+    this.boidContainer.addChild(this.boidLayer);
 
-    // Create mask for the boid container with higher quality
-    const mask = new PIXI.Graphics();
-    mask.beginFill(0xffffff);
-    mask.drawRoundedRect(0, 0, this.tileWidth, this.tileHeight, CORNER_RADIUS);
-    mask.endFill();
-    this.addChild(mask);
-    this.boidContainer.mask = mask;
-
-    // Add high-quality border with rounded corners
-    const border = new PIXI.Graphics();
-    border.lineStyle(4, 0x4A4A4A, 1);
-    border.drawRoundedRect(0, 0, this.tileWidth, this.tileHeight, CORNER_RADIUS);
-    // Add a subtle inner glow effect
-    border.lineStyle(2, 0x6A6A6A, 0.5);
-    border.drawRoundedRect(1, 1, this.tileWidth - 2, this.tileHeight - 2, CORNER_RADIUS - 1);
-    this.addChild(border);
+    // Mask the boids to the tile's rounded rectangle
+    this.boidMask = new PIXI.Graphics();
+    this.addChild(this.boidMask);
+    this.boidContainer.mask = this.boidMask;
+
+    // Border with rounded corners
+    this.border = new PIXI.Graphics();
+    this.addChild(this.border);
 
     // Make the last tile semi-transparent
-    if (id === 8) {
+    if (this.isEmpty) {
       this.alpha = 0.5;
     }
 
     // Create HTML element for the number (except for the last tile)
-    if (id < 8) {
+    if (!this.isEmpty) {
       this.createHtmlElement();
     }
 
     // Set up interaction
     this.setupInteraction();
+    this.drawShapes();
 
     // Ensure position updates after being added to stage
     this.on('added', () => {
@@ -101,88 +128,84 @@ export class PuzzleTile extends PIXI.Container {
         this.updateHtmlPosition();
       });
     });
+  }
+
+  private get tileWidth(): number {
+    return this.layout.tileWidth;
+  }
+
+  private get tileHeight(): number {
+    return this.layout.tileHeight;
+  }
 
-    // Handle window resize
-    window.addEventListener('resize', this.onResize.bind(this));
+  // Resize the tile for a new layout and put it back in its cell
+  setLayout(layout: BoardLayout) {
+    this.layout = layout;
+    this.drawShapes();
+    if (this.hintOutline) {
+      this.drawHintOutline(this.hintOutline);
+    }
+    // Cut any slide or drag short and put the tile straight into its cell
+    this.setTilePosition(this.row, this.col);
   }
 
-  updateBoids(boids: Boid[]) {
-    // Clear existing boids
-    this.boidContainer.removeChildren();
+  // Draw every shape that follows the tile's size
+  private drawShapes() {
+    const { cornerRadius } = this.layout;
+
+    this.boidMask.clear();
+    this.boidMask.beginFill(0xffffff);
+    this.boidMask.drawRoundedRect(0, 0, this.tileWidth, this.tileHeight, cornerRadius);
+    this.boidMask.endFill();
+
+    this.border.clear();
+    this.border.lineStyle(4, 0x4A4A4A, 1);
+    this.border.drawRoundedRect(0, 0, this.tileWidth, this.tileHeight, cornerRadius);
+    // Add a subtle inner glow effect
+    this.border.lineStyle(2, 0x6A6A6A, 0.5);
+    this.border.drawRoundedRect(1, 1, this.tileWidth - 2, this.tileHeight - 2, Math.max(0, cornerRadius - 1));
+
+    this.hoverBackground.clear();
+    this.hoverBackground.beginFill(0x000000, 0.3);
+    this.hoverBackground.drawRoundedRect(0, 0, this.tileWidth, this.tileHeight, cornerRadius);
+    this.hoverBackground.endFill();
+
+    this.interactiveLayer.clear();
+    this.interactiveLayer.beginFill(0xFFFFFF, 0.001); // Almost completely transparent
+    this.interactiveLayer.drawRoundedRect(0, 0, this.tileWidth, this.tileHeight, cornerRadius);
+    this.interactiveLayer.endFill();
+  }
 
+  updateBoids(snapshot: FlockSnapshot) {
     // Get the container's global position
     const globalPos = this.parent?.getGlobalPosition() || { x: 0, y: 0 };
 
-    // Calculate the viewport bounds for this tile, accounting for gaps and container position
-    const viewportX = globalPos.x + this.correctCol * (this.tileWidth + GAP);
-    const viewportY = globalPos.y + this.correctRow * (this.tileHeight + GAP);
+    // Each tile shows the part of the flock behind its solved cell, wherever it currently is
+    const home = this.layout.cellPosition(this.correctRow, this.correctCol);
+    const viewportX = globalPos.x + home.x;
+    const viewportY = globalPos.y + home.y;
+
+    // Re-render only the boids that should be visible in this tile, reusing pooled sprites
+    const { data, count, width, height } = snapshot;
+    this.boidLayer.begin();
+    for (let i = 0; i < count; i++) {
+      const offset = i * BOID_STRIDE;
 
-    // Re-render only the boids that should be visible in this tile
-    boids.forEach(boid => {
       // Normalize boid position relative to the simulation area
-      const normalizedX = ((boid.x % window.innerWidth) + window.innerWidth) % window.innerWidth;
-      const normalizedY = ((boid.y % window.innerHeight) + window.innerHeight) % window.innerHeight;
+      const normalizedX = ((data[offset] % width) + width) % width;
+      const normalizedY = ((data[offset + 1] % height) + height) % height;
 
       if (normalizedX >= viewportX && normalizedX < viewportX + this.tileWidth &&
           normalizedY >= viewportY && normalizedY < viewportY + this.tileHeight) {
-        // Create a new graphics object for this boid
-        const boidGraphics = new PIXI.Graphics();
-        boidGraphics.beginFill(boid.color); // Use the boid's original color
-        // Draw an isometric triangle
-        boidGraphics.moveTo(0, -6); // Top point
-        boidGraphics.lineTo(5.1, 6); // Bottom right (6 * 0.85)
-        boidGraphics.lineTo(-5.1, 6); // Bottom left
-        boidGraphics.closePath();
-        boidGraphics.endFill();
-
         // Position relative to tile viewport
-        boidGraphics.x = normalizedX - viewportX;
-        boidGraphics.y = normalizedY - viewportY;
-
-        // Rotate to match boid direction (add PI/2 to align with movement)
-        boidGraphics.rotation = boid.rotation + Math.PI/2;
-
-        this.boidContainer.addChild(boidGraphics);
-      }
-    });
-  }
-
-  private onResize() {
-    const newDimensions = calculateTileDimensions();
-    if (newDimensions.width !== this.tileWidth || newDimensions.height !== this.tileHeight) {
-      this.tileWidth = newDimensions.width;
-      this.tileHeight = newDimensions.height;
-      
-      // Update mask with higher quality
-      const oldMask = this.boidContainer.mask;
-      const newMask = new PIXI.Graphics();
-      newMask.beginFill(0xffffff);
-      newMask.drawRoundedRect(0, 0, this.tileWidth, this.tileHeight, CORNER_RADIUS);
-      newMask.endFill();
-      
-      if (oldMask instanceof PIXI.Container) {
-        oldMask.destroy();
+        this.boidLayer.add(
+          normalizedX - viewportX, normalizedY - viewportY,
+          data[offset + 2], data[offset + 3],
+          data[offset + 4], data[offset + 5]
+        );
       }
-      this.addChild(newMask);
-      this.boidContainer.mask = newMask;
-
-      // Update border with higher quality
-      this.children.forEach(child => {
-        if (child instanceof PIXI.Graphics && child !== newMask) {
-          child.clear();
-          child.lineStyle(4, 0x4A4A4A, 1);
-          child.drawRoundedRect(0, 0, this.tileWidth, this.tileHeight, CORNER_RADIUS);
-          // Add a subtle inner glow effect
-          child.lineStyle(2, 0x6A6A6A, 0.5);
-          child.drawRoundedRect(1, 1, this.tileWidth - 2, this.tileHeight - 2, CORNER_RADIUS - 1);
-        }
-      });
-
-      // Update position
-      const currentCol = Math.round(this.x / (this.tileWidth + GAP));
-      const currentRow = Math.round(this.y / (this.tileHeight + GAP));
-      this.setTilePosition(currentRow, currentCol);
     }
+    this.boidLayer.end();
   }
 
   private createHtmlElement() {
@@ -208,8 +231,8 @@ export class PuzzleTile extends PIXI.Container {
       left: '8px', // Position from left
     });
 
-    // Add to the document
-    document.body.appendChild(this.htmlElement);
+    // Add next to the canvas
+    this.overlayParent.appendChild(this.htmlElement);
   }
 
   private updateHtmlPosition() {
@@ -220,9 +243,15 @@ export class PuzzleTile extends PIXI.Container {
     }
   }
 
+  // Place the tile straight into a cell, taking it out of any slide or drag
   setTilePosition(row: number, col: number) {
-    this.x = col * (this.tileWidth + GAP);
-    this.y = row * (this.tileHeight + GAP);
+    this.stopMove();
+    this.drag = null;
+    this.row = row;
+    this.col = col;
+    const position = this.layout.cellPosition(row, col);
+    this.x = position.x;
+    this.y = position.y;
     
     requestAnimationFrame(() => {
       this.updateHtmlPosition();
@@ -230,25 +259,21 @@ export class PuzzleTile extends PIXI.Container {
   }
 
   private setupInteraction(): void {
-    // Create a transparent interactive layer
+    // Create a transparent interactive layer, drawn with the other shapes
     const interactiveLayer = new PIXI.Graphics();
-    interactiveLayer.beginFill(0xFFFFFF, 0.001); // Almost completely transparent
-    interactiveLayer.drawRoundedRect(0, 0, this.tileWidth, this.tileHeight, CORNER_RADIUS);
-    interactiveLayer.endFill();
     interactiveLayer.eventMode = 'static';
     interactiveLayer.cursor = 'pointer';
+    this.interactiveLayer = interactiveLayer;
 
     // Create hover background
     const hoverBackground = new PIXI.Graphics();
-    hoverBackground.beginFill(0x000000, 0.3);
-    hoverBackground.drawRoundedRect(0, 0, this.tileWidth, this.tileHeight, CORNER_RADIUS);
-    hoverBackground.endFill();
     hoverBackground.visible = false;
+    this.hoverBackground = hoverBackground;
     this.addChild(hoverBackground);
 
     // Add hover effect
     interactiveLayer.on('pointerover', () => {
-      if (this.id !== 8) { // Don't apply hover effect to empty tile
+      if (!this.isEmpty) { // Don't apply hover effect to empty tile
         hoverBackground.visible = true;
         gsap.to(hoverBackground, {
           alpha: 1,
@@ -259,7 +284,7 @@ export class PuzzleTile extends PIXI.Container {
     });
 
     interactiveLayer.on('pointerout', () => {
-      if (this.id !== 8) { // Don't apply hover effect to empty tile
+      if (!this.isEmpty) { // Don't apply hover effect to empty tile
         gsap.to(hoverBackground, {
           alpha: 0,
           duration: 0.2,
@@ -271,30 +296,235 @@ export class PuzzleTile extends PIXI.Container {
       }
     });
 
-    // Add click handler
-    interactiveLayer.on('pointerdown', () => {
-      this.emit('tileclick', this);
+    // A tile next to the gap can be dragged into it. Otherwise mouse clicks act immediately,
+    // and touch and pen wait for release to tell a tap from a swipe.
+    let touchStart: PIXI.Point | null = null;
+    interactiveLayer.on('pointerdown', (e: PIXI.FederatedPointerEvent) => {
+      if (this.startDrag(e)) return;
+      if (e.pointerType === 'mouse') {
+        this.emit('tileclick', this);
+      } else {
+        touchStart = e.global.clone();
+      }
     });
 
+    interactiveLayer.on('globalpointermove', (e: PIXI.FederatedPointerEvent) => this.moveDrag(e));
+
+    const onTouchEnd = (e: PIXI.FederatedPointerEvent) => {
+      if (this.endDrag(e)) return;
+      if (!touchStart) return;
+      const dx = e.global.x - touchStart.x;
+      const dy = e.global.y - touchStart.y;
+      touchStart = null;
+
+      if (Math.max(Math.abs(dx), Math.abs(dy)) < SWIPE_THRESHOLD) {
+        this.emit('tileclick', this);
+      } else {
+        this.emitSwipe(dx, dy);
+      }
+    };
+    interactiveLayer.on('pointerup', onTouchEnd);
+    interactiveLayer.on('pointerupoutside', onTouchEnd);
+
     // Add the interactive layer to the container
     this.addChild(interactiveLayer);
   }
 
-  animateToPosition(row: number, col: number) {
-    gsap.to(this, {
-      x: col * (this.tileWidth + GAP),
-      y: row * (this.tileHeight + GAP),
-      duration: 0.4,
-      ease: 'power2.out',
-      onUpdate: () => this.updateHtmlPosition()
+  // Pick the tile up if the game says it can slide into the gap
+  private startDrag(e: PIXI.FederatedPointerEvent): boolean {
+    if (this.drag || this.isMoving()) return false;
+    const target = this.getDragTarget?.();
+    if (!target) return false;
+
+    const from = this.layout.cellPosition(this.row, this.col);
+    const to = this.layout.cellPosition(target[0], target[1]);
+    const axis = from.x !== to.x ? 'x' : 'y';
+    this.drag = {
+      pointerId: e.pointerId,
+      start: e.global.clone(),
+      origin: from,
+      axis,
+      travel: to[axis] - from[axis],
+      offset: 0,
+      velocity: 0,
+      lastTime: performance.now(),
+    };
+    return true;
+  }
+
+  // Follow the pointer along the free axis, never past the tile's own cell or the gap
+  private moveDrag(e: PIXI.FederatedPointerEvent) {
+    const drag = this.drag;
+    if (!drag || e.pointerId !== drag.pointerId) return;
+
+    const moved = drag.axis === 'x' ? e.global.x - drag.start.x : e.global.y - drag.start.y;
+    const offset = drag.travel > 0
+      ? Math.min(Math.max(moved, 0), drag.travel)
+      : Math.max(Math.min(moved, 0), drag.travel);
+
+    const now = performance.now();
+    const elapsed = Math.max(now - drag.lastTime, 1);
+    const speed = (offset - drag.offset) / elapsed * Math.sign(drag.travel);
+    drag.velocity = drag.velocity * 0.2 + speed * 0.8;
+    drag.offset = offset;
+    drag.lastTime = now;
+
+    this[drag.axis] = drag.origin[drag.axis] + offset;
+    this.updateHtmlPosition();
+  }
+
+  // Let go of the tile: a tap still counts as a click, otherwise it slides on into the gap
+  // (leaving the game to make the move) or back to its cell, keeping its momentum
+  private endDrag(e: PIXI.FederatedPointerEvent): boolean {
+    const drag = this.drag;
+    if (!drag || e.pointerId !== drag.pointerId) return false;
+    this.drag = null;
+
+    const dx = e.global.x - drag.start.x;
+    const dy = e.global.y - drag.start.y;
+    if (Math.max(Math.abs(dx), Math.abs(dy)) < SWIPE_THRESHOLD) {
+      this.setTilePosition(this.row, this.col);
+      this.emit('tileclick', this);
+      return true;
+    }
+
+    // A finger that went mostly across the drag axis, or away from the gap, was swiping
+    const along = drag.axis === 'x' ? dx : dy;
+    const across = drag.axis === 'x' ? dy : dx;
+    const isSwipe = Math.abs(across) > Math.abs(along) || along * drag.travel < 0;
+    if (isSwipe && e.pointerType !== 'mouse') {
+      this.setTilePosition(this.row, this.col);
+      this.emitSwipe(dx, dy);
+      return true;
+    }
+
+    const progress = drag.offset / drag.travel;
+    const intoGap = drag.velocity > FLICK_SPEED ||
+      (drag.velocity >= -FLICK_SPEED && progress >= SNAP_PROGRESS);
+    const remaining = Math.abs(intoGap ? drag.travel - drag.offset : drag.offset);
+    const speed = Math.max(Math.abs(drag.velocity), MIN_SNAP_SPEED);
+    const duration = Math.min(remaining / speed / 1000, MAX_SNAP_DURATION);
+
+    if (intoGap) {
+      this.emit('tiledrop', this, duration);
+    } else {
+      this.animateToPosition(this.row, this.col, duration);
+    }
+    return true;
+  }
+
+  // Report a swipe in whichever screen direction the finger mostly travelled
+  private emitSwipe(dx: number, dy: number) {
+    if (Math.abs(dx) > Math.abs(dy)) {
+      this.emit('tileswipe', dx > 0 ? 'right' : 'left');
+    } else {
+      this.emit('tileswipe', dy > 0 ? 'down' : 'up');
+    }
+  }
+
+  isDragging(): boolean {
+    return this.drag !== null;
+  }
+
+  // A new slide takes over from wherever the last one got to, so one tile never runs two at once
+  animateToPosition(row: number, col: number, duration: number = 0.4): Promise<void> {
+    this.stopMove();
+    this.row = row;
+    this.col = col;
+    const position = this.layout.cellPosition(row, col);
+    return new Promise(resolve => {
+      this.resolveMove = resolve;
+      this.moveTween = gsap.to(this, {
+        x: position.x,
+        y: position.y,
+        duration,
+        ease: 'power2.out',
+        onUpdate: () => this.updateHtmlPosition(),
+        onComplete: () => this.stopMove()
+      });
     });
   }
 
+  // End the slide in progress where it is, letting anything waiting on it carry on
+  private stopMove() {
+    this.moveTween?.kill();
+    this.moveTween = null;
+    const resolve = this.resolveMove;
+    this.resolveMove = null;
+    resolve?.();
+  }
+
+  // Cell the tile sits in, or is sliding to
+  getCell(): [number, number] {
+    return [this.row, this.col];
+  }
+
+  // Whether the tile rests exactly on a cell, e.g. to check the view against the puzzle state
+  isAt(row: number, col: number): boolean {
+    const position = this.layout.cellPosition(row, col);
+    return !this.isMoving() && this.row === row && this.col === col &&
+      this.x === position.x && this.y === position.y;
+  }
+
+  // Whether the tile is sliding between cells right now, on its own or under a finger
+  isMoving(): boolean {
+    return this.drag !== null || (this.moveTween?.isActive() ?? false);
+  }
+
+  // Where the tile is drawn on the page, e.g. to let it push boids out of its way
+  getScreenRect(): { x: number; y: number; width: number; height: number } {
+    const position = this.getGlobalPosition();
+    return { x: position.x, y: position.y, width: this.tileWidth, height: this.tileHeight };
+  }
+
+  // Fade out the border, number and empty-slot dimming so the board reads as one picture
+  setCelebrating(celebrating: boolean, duration: number = 0.8) {
+    gsap.to(this.border, { alpha: celebrating ? 0 : 1, duration, ease: 'power2.inOut' });
+
+    if (this.isEmpty) {
+      gsap.to(this, { alpha: celebrating ? 1 : 0.5, duration, ease: 'power2.inOut' });
+    }
+
+    if (this.htmlElement) {
+      this.htmlElement.style.transition = `opacity ${duration}s`;
+      this.htmlElement.style.opacity = celebrating ? '0' : '1';
+    }
+  }
+
+  // Pulse an outline around the tile to suggest it as the next move
+  showHint() {
+    if (!this.hintOutline) {
+      this.hintOutline = new PIXI.Graphics();
+      this.hintOutline.eventMode = 'none';
+      this.addChild(this.hintOutline);
+    }
+
+    this.drawHintOutline(this.hintOutline);
+
+    gsap.killTweensOf(this.hintOutline);
+    this.hintOutline.alpha = 0;
+    gsap.to(this.hintOutline, {
+      alpha: 1,
+      duration: 0.3,
+      ease: 'power2.inOut',
+      yoyo: true,
+      repeat: 5
+    });
+  }
+
+  private drawHintOutline(outline: PIXI.Graphics) {
+    outline.clear();
+    outline.lineStyle(6, 0xFFE5B4, 1);
+    outline.drawRoundedRect(0, 0, this.tileWidth, this.tileHeight, this.layout.cornerRadius);
+  }
+
   destroy() {
-    window.removeEventListener('resize', this.onResize.bind(this));
+    // Stop every tween this tile started so none of them touches it after it is gone
+    this.stopMove();
+    gsap.killTweensOf([this, this.border, this.hoverBackground, this.hintOutline].filter(Boolean));
     if (this.htmlElement && this.htmlElement.parentNode) {
       this.htmlElement.parentNode.removeChild(this.htmlElement);
     }
-    super.destroy();
+    super.destroy({ children: true });
   }
 } 
\ No newline at end of file
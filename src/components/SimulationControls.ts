@@ -0,0 +1,182 @@
+import { FlockHost } from '../boids/FlockHost';
+import { FlockSimulationOptions } from '../boids/FlockSimulation';
+import { FlockRecording, serializeRecording, parseRecording } from '../boids/FlockRecording';
+import { CONTROL_STYLE } from './ControlBar';
+
+export type SimulationControlOptions = {
+  timeScales: number[];
+  // Settings for a freshly seeded flock that matches what is on screen now
+  getFlockOptions: () => FlockSimulationOptions;
+  // Called whenever the flock is replaced by a new recording or replay
+  onRestart: () => void;
+};
+
+// Pause, slow-motion and single-tick stepping for watching the flock closely,
+// plus recording a seeded run so it can be replayed or shared exactly
+export class SimulationControls {
+  private element: HTMLDivElement;
+  private pauseButton: HTMLButtonElement;
+  private stepButton: HTMLButtonElement;
+  private recordButton: HTMLButtonElement;
+  private replayButton: HTMLButtonElement;
+  private exportButton: HTMLButtonElement;
+  private flock: FlockHost;
+  private options: SimulationControlOptions;
+  private paused: boolean = false;
+  private timeScale: number = 1;
+  private isRecording: boolean = false;
+  private recording: FlockRecording | null = null;
+  private flashTimer: number | undefined;
+
+  constructor(parent: HTMLElement, flock: FlockHost, options: SimulationControlOptions) {
+    this.flock = flock;
+    this.options = options;
+    this.flock.onReplayEnd = () => this.setEnabled(this.replayButton, true);
+
+    this.element = document.createElement('div');
+    this.element.className = 'simulation-controls';
+    Object.assign(this.element.style, {
+      position: 'absolute',
+      top: '20px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      display: 'flex',
+      gap: '8px',
+      zIndex: '1000',
+    });
+
+    this.pauseButton = this.createButton('Pause', () => this.togglePause());
+
+    const speedSelect = document.createElement('select');
+    options.timeScales.forEach(timeScale => {
+      const option = document.createElement('option');
+      option.value = timeScale.toString();
+      option.textContent = `${timeScale}×`;
+      speedSelect.appendChild(option);
+    });
+    speedSelect.value = '1';
+    Object.assign(speedSelect.style, CONTROL_STYLE);
+    speedSelect.onchange = () => {
+      this.timeScale = Number(speedSelect.value);
+      this.flock.setTimeScale(this.timeScale);
+    };
+    this.element.appendChild(speedSelect);
+
+    this.stepButton = this.createButton('Step', () => this.step());
+    this.setEnabled(this.stepButton, false);
+
+    this.recordButton = this.createButton('Record', () => this.toggleRecording());
+    this.replayButton = this.createButton('Replay flock', () => this.replay());
+    this.exportButton = this.createButton('Export', () => this.handleExport());
+    this.createButton('Import', () => this.handleImport());
+    this.setEnabled(this.replayButton, false);
+    this.setEnabled(this.exportButton, false);
+
+    parent.appendChild(this.element);
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Time that passes for the flock in deltaMs of real time, given pause and slow motion
+  getSimulatedMs(deltaMs: number): number {
+    return this.paused ? 0 : deltaMs * this.timeScale;
+  }
+
+  togglePause(): void {
+    this.paused = !this.paused;
+    this.pauseButton.textContent = this.paused ? 'Play' : 'Pause';
+    this.setEnabled(this.stepButton, this.paused);
+    this.flock.setPaused(this.paused);
+  }
+
+  // Stepping only makes sense while paused; a running flock ticks on its own
+  step(): void {
+    if (this.paused) {
+      this.flock.stepOnce();
+    }
+  }
+
+  // Recording starts a fresh flock, since only a run from its seed can be reproduced
+  private async toggleRecording(): Promise<void> {
+    if (!this.isRecording) {
+      this.isRecording = true;
+      this.recordButton.textContent = 'Stop';
+      this.flock.record(this.options.getFlockOptions());
+      this.options.onRestart();
+      return;
+    }
+
+    this.isRecording = false;
+    this.recordButton.textContent = 'Record';
+    const recording = await this.flock.stopRecording();
+    if (recording) {
+      this.recording = recording;
+      this.setEnabled(this.replayButton, true);
+      this.setEnabled(this.exportButton, true);
+    }
+  }
+
+  private replay(): void {
+    if (!this.recording || this.isRecording) return;
+    this.setEnabled(this.replayButton, false);
+    this.flock.replay(this.recording);
+    this.options.onRestart();
+  }
+
+  private async handleExport(): Promise<void> {
+    if (!this.recording) return;
+
+    try {
+      await navigator.clipboard.writeText(serializeRecording(this.recording));
+      this.flashLabel(this.exportButton, 'Copied!', 'Export');
+    } catch (error) {
+      console.warn('Could not copy recording', error);
+      this.flashLabel(this.exportButton, 'Copy failed', 'Export');
+    }
+  }
+
+  private handleImport(): void {
+    const text = window.prompt('Paste an exported flock recording');
+    if (!text) return;
+
+    const recording = parseRecording(text);
+    if (!recording) {
+      window.alert('That is not a valid flock recording');
+      return;
+    }
+
+    this.recording = recording;
+    this.setEnabled(this.exportButton, true);
+    this.replay();
+  }
+
+  private flashLabel(button: HTMLButtonElement, label: string, original: string): void {
+    button.textContent = label;
+    clearTimeout(this.flashTimer);
+    this.flashTimer = window.setTimeout(() => {
+      button.textContent = original;
+    }, 2000);
+  }
+
+  private setEnabled(button: HTMLButtonElement, enabled: boolean): void {
+    button.disabled = !enabled;
+    button.style.opacity = enabled ? '1' : '0.5';
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    Object.assign(button.style, CONTROL_STYLE);
+    button.onclick = () => onClick();
+    this.element.appendChild(button);
+    return button;
+  }
+
+  destroy(): void {
+    clearTimeout(this.flashTimer);
+    this.flock.onReplayEnd = null;
+    this.element.remove();
+  }
+}
@@ -0,0 +1,68 @@
+import { GridSize, TileId } from '../puzzle/PuzzleState';
+import { PuzzleTile, getEmptyTileId } from './PuzzleTile';
+
+// A tile and the cell it has to go to
+export type TilePlacement = {
+  tile: PuzzleTile;
+  row: number;
+  col: number;
+};
+
+// Brings the tiles in line with a grid from the puzzle state. Callers only say which board
+// to show; the reconciler works out which tiles are out of place and moves just those, so every
+// way of changing the board (moves, undo, shuffles, loads and playback) ends up the same.
+export class TileReconciler {
+  private readonly tiles: Map<number, PuzzleTile> = new Map();
+  // The gap in the grid is drawn by the last tile
+  private readonly emptyTileId: number;
+
+  constructor(tiles: PuzzleTile[], gridSize: GridSize) {
+    tiles.forEach(tile => this.tiles.set(tile.id, tile));
+    this.emptyTileId = getEmptyTileId(gridSize);
+  }
+
+  get(tileId: number): PuzzleTile | undefined {
+    return this.tiles.get(tileId);
+  }
+
+  // Tiles that are not on their cell in the grid, or already sliding to it. An instant update
+  // (duration 0) doesn't wait for slides either.
+  diff(grid: TileId[][], duration: number = 0): TilePlacement[] {
+    const placements: TilePlacement[] = [];
+    this.forEachCell(grid, (tile, row, col) => {
+      const [tileRow, tileCol] = tile.getCell();
+      const isHeadingThere = tileRow === row && tileCol === col && duration > 0 && tile.isMoving();
+      if (!tile.isAt(row, col) && !isHeadingThere) {
+        placements.push({ tile, row, col });
+      }
+    });
+    return placements;
+  }
+
+  // Move the tiles to show the grid, instantly when duration is 0, resolving once all arrive
+  async reconcile(grid: TileId[][], duration: number): Promise<void> {
+    await Promise.all(this.diff(grid, duration).map(({ tile, row, col }) => {
+      if (duration > 0) {
+        return tile.animateToPosition(row, col, duration);
+      }
+      tile.setTilePosition(row, col);
+      return Promise.resolve();
+    }));
+  }
+
+  // Snap every tile that is not resting on its cell, returning the ones that were off
+  verify(grid: TileId[][]): TilePlacement[] {
+    const misplaced = this.diff(grid);
+    misplaced.forEach(({ tile, row, col }) => tile.setTilePosition(row, col));
+    return misplaced;
+  }
+
+  private forEachCell(grid: TileId[][], visit: (tile: PuzzleTile, row: number, col: number) => void): void {
+    grid.forEach((cells, row) => cells.forEach((tileId, col) => {
+      const tile = this.tiles.get(tileId ?? this.emptyTileId);
+      if (tile) {
+        visit(tile, row, col);
+      }
+    }));
+  }
+}
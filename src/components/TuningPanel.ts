@@ -0,0 +1,215 @@
+import { BoidColor } from '../boids/Boid';
+import {
+  FlockConfig,
+  FlockConfigKey,
+  FlockConfigs,
+  DEFAULT_FLOCK_CONFIG,
+  FLOCK_CONFIG_FIELDS,
+  FLOCK_CONFIG_PRESETS,
+  serializeFlockConfigs,
+  parseFlockConfigs,
+} from '../boids/FlockConfig';
+import { CONTROL_STYLE, SelectOption } from './ControlBar';
+
+// Picker value that edits every color group at once
+const ALL_COLORS = 'all';
+
+type Slider = {
+  input: HTMLInputElement;
+  value: HTMLSpanElement;
+};
+
+// Collapsible panel for live-tuning the flock, one color group or all of them at a time
+export class TuningPanel {
+  private element: HTMLDivElement;
+  private body: HTMLDivElement;
+  private colorSelect: HTMLSelectElement;
+  private sliders: Map<FlockConfigKey, Slider> = new Map();
+  private jsonInput: HTMLTextAreaElement;
+  private status: HTMLDivElement;
+  private configs: FlockConfigs = new Map();
+  private onChange: (color: BoidColor, config: FlockConfig) => void;
+
+  constructor(parent: HTMLElement, colors: BoidColor[], onChange: (color: BoidColor, config: FlockConfig) => void) {
+    this.onChange = onChange;
+    colors.forEach(color => this.configs.set(color, DEFAULT_FLOCK_CONFIG));
+
+    this.element = document.createElement('div');
+    this.element.className = 'tuning-panel';
+    Object.assign(this.element.style, {
+      position: 'absolute',
+      bottom: '20px',
+      left: '20px', // The control bar takes the bottom-right corner
+      display: 'flex',
+      flexDirection: 'column-reverse',
+      alignItems: 'flex-start',
+      gap: '8px',
+      zIndex: '1000',
+    });
+
+    const toggle = this.createButton('Tune flock', () => {
+      const isOpen = this.body.style.display !== 'none';
+      this.body.style.display = isOpen ? 'none' : 'flex';
+    });
+    this.element.appendChild(toggle);
+
+    this.body = document.createElement('div');
+    Object.assign(this.body.style, {
+      ...CONTROL_STYLE,
+      display: 'none',
+      flexDirection: 'column',
+      gap: '6px',
+      width: '260px',
+      maxHeight: 'calc(100vh - 120px)',
+      overflowY: 'auto',
+      cursor: 'default',
+      fontSize: '13px',
+    });
+    this.element.appendChild(this.body);
+
+    // Which color group the sliders edit, and presets to start from
+    this.colorSelect = this.createSelect(
+      [{ value: ALL_COLORS, label: 'All colors' }, ...colors.map(color => ({ value: String(color), label: BoidColor[color] }))],
+      () => this.showSelectedConfig()
+    );
+    const presetSelect = this.createSelect(
+      [{ value: '', label: 'Apply preset…' }, ...Object.keys(FLOCK_CONFIG_PRESETS).map(name => ({ value: name, label: name }))],
+      () => {
+        const preset = FLOCK_CONFIG_PRESETS[presetSelect.value];
+        presetSelect.value = '';
+        if (preset) this.applyToSelected(() => ({ ...preset }));
+      }
+    );
+    this.body.appendChild(this.colorSelect);
+    this.body.appendChild(presetSelect);
+
+    FLOCK_CONFIG_FIELDS.forEach(field => {
+      const row = document.createElement('label');
+      Object.assign(row.style, { display: 'flex', flexDirection: 'column', gap: '2px' });
+
+      const header = document.createElement('div');
+      Object.assign(header.style, { display: 'flex', justifyContent: 'space-between' });
+      const label = document.createElement('span');
+      label.textContent = field.label;
+      const value = document.createElement('span');
+      header.appendChild(label);
+      header.appendChild(value);
+
+      const input = document.createElement('input');
+      input.type = 'range';
+      input.min = String(field.min);
+      input.max = String(field.max);
+      input.step = String(field.step);
+      input.oninput = () => {
+        const number = Number(input.value);
+        value.textContent = input.value;
+        this.applyToSelected(config => ({ ...config, [field.key]: number }));
+      };
+
+      row.appendChild(header);
+      row.appendChild(input);
+      this.body.appendChild(row);
+      this.sliders.set(field.key, { input, value });
+    });
+
+    // JSON round trip so a tuned look can be shared or kept
+    this.jsonInput = document.createElement('textarea');
+    this.jsonInput.rows = 6;
+    this.jsonInput.placeholder = 'Paste exported JSON here';
+    Object.assign(this.jsonInput.style, { width: '100%', boxSizing: 'border-box', fontFamily: 'monospace', fontSize: '11px' });
+    this.body.appendChild(this.jsonInput);
+
+    const buttons = document.createElement('div');
+    Object.assign(buttons.style, { display: 'flex', gap: '6px' });
+    buttons.appendChild(this.createButton('Export', () => this.handleExport()));
+    buttons.appendChild(this.createButton('Import', () => this.handleImport()));
+    this.body.appendChild(buttons);
+
+    this.status = document.createElement('div');
+    this.body.appendChild(this.status);
+
+    this.showSelectedConfig();
+    parent.appendChild(this.element);
+  }
+
+  getConfigs(): FlockConfigs {
+    return new Map(this.configs);
+  }
+
+  private getSelectedColors(): BoidColor[] {
+    return this.colorSelect.value === ALL_COLORS
+      ? Array.from(this.configs.keys())
+      : [Number(this.colorSelect.value) as BoidColor];
+  }
+
+  private applyToSelected(update: (config: FlockConfig) => FlockConfig): void {
+    this.getSelectedColors().forEach(color => this.setConfig(color, update(this.configs.get(color)!)));
+    this.showSelectedConfig();
+  }
+
+  private setConfig(color: BoidColor, config: FlockConfig): void {
+    this.configs.set(color, config);
+    this.onChange(color, config);
+  }
+
+  // When editing all colors the sliders start from the first group's values
+  private showSelectedConfig(): void {
+    const config = this.configs.get(this.getSelectedColors()[0])!;
+    this.sliders.forEach((slider, key) => {
+      slider.input.value = String(config[key]);
+      slider.value.textContent = String(config[key]);
+    });
+  }
+
+  private async handleExport(): Promise<void> {
+    const json = serializeFlockConfigs(this.configs);
+    this.jsonInput.value = json;
+
+    try {
+      await navigator.clipboard.writeText(json);
+      this.status.textContent = 'Copied to clipboard';
+    } catch {
+      // Clipboard access can be denied; the JSON is still in the text box to copy by hand
+      this.status.textContent = 'Copy the JSON above';
+    }
+  }
+
+  private handleImport(): void {
+    const configs = parseFlockConfigs(this.jsonInput.value);
+    if (!configs) {
+      this.status.textContent = 'Invalid flock JSON';
+      return;
+    }
+
+    configs.forEach((config, color) => {
+      if (this.configs.has(color)) this.setConfig(color, config);
+    });
+    this.showSelectedConfig();
+    this.status.textContent = `Imported ${configs.size} color${configs.size === 1 ? '' : 's'}`;
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    Object.assign(button.style, CONTROL_STYLE);
+    button.onclick = () => onClick();
+    return button;
+  }
+
+  private createSelect(options: SelectOption[], onChange: () => void): HTMLSelectElement {
+    const select = document.createElement('select');
+    options.forEach(option => {
+      const element = document.createElement('option');
+      element.value = option.value;
+      element.textContent = option.label;
+      select.appendChild(element);
+    });
+    Object.assign(select.style, { ...CONTROL_STYLE, padding: '6px 10px', fontSize: '13px' });
+    select.onchange = () => onChange();
+    return select;
+  }
+
+  destroy(): void {
+    this.element.remove();
+  }
+}
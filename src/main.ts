@@ -1,9 +1,5 @@
-import { Game } from './components/Game';
+import { createGame } from './components/Game';
 import './style.css';
 
-// Create and initialize the game
-const game = new Game();
-
-// Add the game canvas to the page
-const app = document.querySelector<HTMLDivElement>('#app')!;
-app.appendChild(game.getView());
+// Mount the game in the page; createGame appends the canvas and its controls itself
+createGame(document.querySelector<HTMLDivElement>('#app')!);
@@ -0,0 +1,92 @@
+import { GridSize } from './PuzzleState';
+import { Difficulty } from './PuzzleGenerator';
+
+const STORAGE_KEY = 'sliding-puzzle:leaderboard';
+
+// Personal bests for one grid size and difficulty
+export type LeaderboardEntry = {
+    bestTimeMs: number;
+    fewestMoves: number;
+    // Smallest number of moves taken beyond the optimal solution
+    fewestExtraMoves: number | null;
+    gamesSolved: number;
+};
+
+export type GameResult = {
+    timeMs: number;
+    moves: number;
+    optimalMoves: number | null;
+};
+
+export type RecordOutcome = {
+    entry: LeaderboardEntry;
+    isBestTime: boolean;
+    isFewestMoves: boolean;
+};
+
+// Local personal-best table kept in localStorage
+export class Leaderboard {
+    private entries: Record<string, LeaderboardEntry>;
+
+    constructor() {
+        this.entries = Leaderboard.load();
+    }
+
+    public static getKey(gridSize: GridSize, difficulty: Difficulty): string {
+        return `${gridSize.rows}x${gridSize.cols}:${difficulty}`;
+    }
+
+    public getEntry(gridSize: GridSize, difficulty: Difficulty): LeaderboardEntry | null {
+        const entry = this.entries[Leaderboard.getKey(gridSize, difficulty)];
+        return entry ? { ...entry } : null;
+    }
+
+    public record(gridSize: GridSize, difficulty: Difficulty, result: GameResult): RecordOutcome {
+        const key = Leaderboard.getKey(gridSize, difficulty);
+        const previous = this.entries[key];
+        const extraMoves = result.optimalMoves !== null ? result.moves - result.optimalMoves : null;
+
+        const entry: LeaderboardEntry = previous
+            ? {
+                bestTimeMs: Math.min(previous.bestTimeMs, result.timeMs),
+                fewestMoves: Math.min(previous.fewestMoves, result.moves),
+                fewestExtraMoves: extraMoves === null
+                    ? previous.fewestExtraMoves
+                    : Math.min(previous.fewestExtraMoves ?? Infinity, extraMoves),
+                gamesSolved: previous.gamesSolved + 1,
+            }
+            : {
+                bestTimeMs: result.timeMs,
+                fewestMoves: result.moves,
+                fewestExtraMoves: extraMoves,
+                gamesSolved: 1,
+            };
+
+        this.entries[key] = entry;
+        this.save();
+
+        return {
+            entry: { ...entry },
+            isBestTime: !previous || result.timeMs < previous.bestTimeMs,
+            isFewestMoves: !previous || result.moves < previous.fewestMoves,
+        };
+    }
+
+    private save(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+        } catch (error) {
+            console.warn('Could not save leaderboard', error);
+        }
+    }
+
+    private static load(): Record<string, LeaderboardEntry> {
+        try {
+            const text = localStorage.getItem(STORAGE_KEY);
+            const data = text ? JSON.parse(text) : null;
+            return typeof data === 'object' && data !== null ? data : {};
+        } catch {
+            return {};
+        }
+    }
+}
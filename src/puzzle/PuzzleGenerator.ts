@@ -0,0 +1,81 @@
+import { GridSize, PuzzleState, TileId } from './PuzzleState';
+import { PuzzleSolver } from './PuzzleSolver';
+import { Random, hashString } from '../utils/random';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+// Difficulty is graded by the length of the optimal solution, not the number of shuffle moves.
+// These are the ranges for a 3×3 board; bigger boards scale them with getDifficultyRange.
+export const DIFFICULTY_RANGES: Record<Difficulty, { min: number; max: number }> = {
+    easy: { min: 6, max: 12 },
+    medium: { min: 14, max: 20 },
+    hard: { min: 22, max: 30 },
+};
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+// Candidate boards tried before settling for the closest one
+const MAX_ATTEMPTS = 200;
+
+// Per-candidate solver budget, kept low since a candidate that is too hard to solve is simply skipped
+const MAX_NODES_PER_ATTEMPT = 200_000;
+
+// Optimal solution lengths for a difficulty on the given board. Tiles have further to travel on a
+// bigger board, so the ranges grow with the distance between opposite corners.
+export function getDifficultyRange(gridSize: GridSize, difficulty: Difficulty): { min: number; max: number } {
+    const scale = (gridSize.rows + gridSize.cols - 2) / 4;
+    const { min, max } = DIFFICULTY_RANGES[difficulty];
+    return { min: Math.round(min * scale), max: Math.round(max * scale) };
+}
+
+export type GeneratedPuzzle = {
+    grid: TileId[][];
+    seed: number;
+    difficulty: Difficulty;
+    optimalMoves: number;
+};
+
+// Deterministically build a board of the requested difficulty from a seed
+export function generatePuzzle(gridSize: GridSize, seed: number, difficulty: Difficulty): GeneratedPuzzle {
+    const random = new Random(seed);
+    const solver = new PuzzleSolver(gridSize.rows, gridSize.cols, MAX_NODES_PER_ATTEMPT);
+    const range = getDifficultyRange(gridSize, difficulty);
+
+    let closest: GeneratedPuzzle | null = null;
+    let closestGap = Infinity;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        // Random walks longer than the target collapse into shorter optimal solutions,
+        // so overshoot the range and let the solver measure the result
+        const state = new PuzzleState(gridSize.rows, gridSize.cols);
+        state.shuffle(random, range.min + random.nextInt(range.max * 2));
+
+        const solution = solver.solve(state);
+        if (!solution) continue;
+
+        const candidate = { grid: state.getGrid(), seed, difficulty, optimalMoves: solution.length };
+        if (solution.length >= range.min && solution.length <= range.max) {
+            return candidate;
+        }
+
+        const gap = solution.length < range.min ? range.min - solution.length : solution.length - range.max;
+        if (gap < closestGap) {
+            closest = candidate;
+            closestGap = gap;
+        }
+    }
+
+    if (!closest) {
+        throw new Error(`Could not generate a ${difficulty} ${gridSize.rows}x${gridSize.cols} puzzle`);
+    }
+    return closest;
+}
+
+// Seed shared by everyone playing on the same calendar day. Days follow UTC, so players
+// in every time zone get the same board at the same moment.
+export function getDailySeed(date: Date = new Date()): number {
+    const year = date.getUTCFullYear();
+    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(date.getUTCDate()).padStart(2, '0');
+    return hashString(`daily-${year}-${month}-${day}`);
+}
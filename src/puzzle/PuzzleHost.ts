@@ -0,0 +1,78 @@
+import { GridSize, TileId } from './PuzzleState';
+import { Solution } from './PuzzleSolver';
+import { Difficulty, GeneratedPuzzle } from './PuzzleGenerator';
+import { PuzzleCommand, PuzzleEvent } from './protocol';
+import { runPuzzleCommand } from './puzzleTasks';
+
+type PendingRequest = {
+    command: PuzzleCommand;
+    resolve: (event: PuzzleEvent) => void;
+};
+
+// Runs the searches behind the puzzle in a worker so the board keeps animating while they work.
+// Without a worker, or once it has failed, they run on the main thread instead.
+export class PuzzleHost {
+    private worker: Worker | null = null;
+    private pending: Map<number, PendingRequest> = new Map();
+    private nextId: number = 0;
+
+    constructor() {
+        if (typeof Worker === 'undefined') return;
+        try {
+            this.worker = new Worker(new URL('./puzzle.worker.ts', import.meta.url), { type: 'module' });
+            this.worker.onmessage = (e: MessageEvent<PuzzleEvent>) => this.handleEvent(e.data);
+            this.worker.onerror = (e: ErrorEvent) => {
+                console.error('Puzzle worker failed', e.message);
+                this.fallBack();
+            };
+        } catch (error) {
+            console.warn('Could not start puzzle worker, running on the main thread', error);
+        }
+    }
+
+    // Resolves with null when no solution was found within the search limits
+    public async solve(grid: TileId[][]): Promise<Solution | null> {
+        const event = await this.request({ type: 'solve', id: this.nextId++, grid });
+        return event.type === 'solution' ? event.solution : null;
+    }
+
+    // Resolves with null when no board could be generated
+    public async generate(gridSize: GridSize, seed: number, difficulty: Difficulty): Promise<GeneratedPuzzle | null> {
+        const event = await this.request({ type: 'generate', id: this.nextId++, gridSize, seed, difficulty });
+        return event.type === 'puzzle' ? event.puzzle : null;
+    }
+
+    // Requests still waiting are dropped and never resolve
+    public destroy(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.pending.clear();
+    }
+
+    private request(command: PuzzleCommand): Promise<PuzzleEvent> {
+        return new Promise(resolve => {
+            if (this.worker) {
+                this.pending.set(command.id, { command, resolve });
+                this.worker.postMessage(command);
+            } else {
+                // Still answered asynchronously, so callers behave the same either way
+                setTimeout(() => resolve(runPuzzleCommand(command)));
+            }
+        });
+    }
+
+    private handleEvent(event: PuzzleEvent): void {
+        const request = this.pending.get(event.id);
+        this.pending.delete(event.id);
+        request?.resolve(event);
+    }
+
+    // Answer whatever the worker left unanswered, and everything after, on the main thread
+    private fallBack(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        const requests = [...this.pending.values()];
+        this.pending.clear();
+        requests.forEach(({ command, resolve }) => resolve(runPuzzleCommand(command)));
+    }
+}
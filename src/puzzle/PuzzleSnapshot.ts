@@ -0,0 +1,96 @@
+import { TileId } from './PuzzleState';
+import { Difficulty, DIFFICULTIES } from './PuzzleGenerator';
+
+// Bumped whenever the snapshot shape changes so old saves are ignored instead of misread
+const SNAPSHOT_VERSION = 3;
+
+const STORAGE_KEY = 'sliding-puzzle:snapshot';
+const HASH_PREFIX = '#puzzle=';
+
+// Everything needed to resume a game exactly where it was left
+export type PuzzleSnapshot = {
+    grid: TileId[][];
+    moveCount: number;
+    elapsedMs: number;
+    seed: number | null;
+    difficulty: Difficulty;
+    // Length of the shortest solution from the shuffled start, when known
+    optimalMoves: number | null;
+    // The solver helped with this game (a hint or auto-solve), so it can't set a personal best
+    isAssisted: boolean;
+};
+
+export function serializeSnapshot(snapshot: PuzzleSnapshot): string {
+    return JSON.stringify({ version: SNAPSHOT_VERSION, ...snapshot });
+}
+
+// Parse a serialized snapshot, returning null for anything malformed or from another version
+export function parseSnapshot(text: string): PuzzleSnapshot | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    if (typeof data !== 'object' || data === null) return null;
+
+    const { version, grid, moveCount, elapsedMs, seed, difficulty, optimalMoves, isAssisted } = data as Record<string, unknown>;
+    if (version !== SNAPSHOT_VERSION) return null;
+    if (!isGrid(grid)) return null;
+    if (!isCount(moveCount) || typeof elapsedMs !== 'number' || !(elapsedMs >= 0)) return null;
+    if (seed !== null && !isCount(seed)) return null;
+    if (!DIFFICULTIES.includes(difficulty as Difficulty)) return null;
+    if (optimalMoves !== null && !isCount(optimalMoves)) return null;
+    if (typeof isAssisted !== 'boolean') return null;
+
+    return { grid, moveCount, elapsedMs, seed, difficulty: difficulty as Difficulty, optimalMoves, isAssisted };
+}
+
+function isGrid(value: unknown): value is TileId[][] {
+    return Array.isArray(value) &&
+        value.length > 0 &&
+        value.every(row =>
+            Array.isArray(row) &&
+            row.length === value[0].length &&
+            row.every(id => id === null || Number.isInteger(id))
+        );
+}
+
+function isCount(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) >= 0;
+}
+
+export function saveSnapshot(snapshot: PuzzleSnapshot): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, serializeSnapshot(snapshot));
+    } catch (error) {
+        // Storage can be full or disabled (e.g. private browsing); the game still works without it
+        console.warn('Could not save puzzle', error);
+    }
+}
+
+export function loadSnapshot(): PuzzleSnapshot | null {
+    try {
+        const text = localStorage.getItem(STORAGE_KEY);
+        return text ? parseSnapshot(text) : null;
+    } catch {
+        return null;
+    }
+}
+
+// URL-safe base64 keeps the shared link free of characters that need escaping
+export function encodeSnapshotHash(snapshot: PuzzleSnapshot): string {
+    const base64 = btoa(serializeSnapshot(snapshot));
+    return HASH_PREFIX + base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeSnapshotHash(hash: string): PuzzleSnapshot | null {
+    if (!hash.startsWith(HASH_PREFIX)) return null;
+
+    const base64 = hash.slice(HASH_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/');
+    try {
+        return parseSnapshot(atob(base64));
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,258 @@
+import { PuzzleState } from './PuzzleState';
+
+// Search is abandoned after visiting this many nodes so large boards can't freeze the page
+export const DEFAULT_MAX_NODES = 2_000_000;
+
+// Marker returned by the depth-first search once the goal is reached
+const FOUND = -1;
+
+// findSolution looks for the shortest solution only briefly, then settles for a longer one from
+// a search with its heuristic weighted this much, so hard boards never come back empty
+const OPTIMAL_MAX_NODES = 500_000;
+const FALLBACK_WEIGHT = 3;
+
+export type Solution = {
+    // Ids of the tiles to move, in order
+    moves: number[];
+    // False when the search settled for a longer solution than the shortest
+    isOptimal: boolean;
+};
+
+// The shortest solution if it can be found quickly, otherwise a longer one from the weighted search
+export function findSolution(state: PuzzleState): Solution | null {
+    const { rows, cols } = state.getSize();
+    const optimal = new PuzzleSolver(rows, cols, OPTIMAL_MAX_NODES).solve(state);
+    if (optimal) {
+        return { moves: optimal, isOptimal: true };
+    }
+    const fallback = new PuzzleSolver(rows, cols, DEFAULT_MAX_NODES, FALLBACK_WEIGHT).solve(state);
+    return fallback ? { moves: fallback, isOptimal: false } : null;
+}
+
+// Optimal solver using IDA* with Manhattan distance plus linear conflicts
+export class PuzzleSolver {
+    private readonly rows: number;
+    private readonly cols: number;
+    private readonly empty: number;
+    private readonly maxNodes: number;
+    // Above 1 the heuristic is overestimated on purpose: solutions may be longer than optimal,
+    // but the search finishes on boards far too deep for an optimal one
+    private readonly weight: number;
+
+    // Search state, tile ids per cell with `empty` standing in for the gap
+    private board: Int32Array;
+    private emptyIndex: number = 0;
+    private manhattan: number = 0;
+    private rowConflicts: Int32Array;
+    private colConflicts: Int32Array;
+    private conflicts: number = 0;
+    private path: number[] = [];
+    private nodes: number = 0;
+
+    constructor(rows: number, cols: number, maxNodes: number = DEFAULT_MAX_NODES, weight: number = 1) {
+        this.rows = rows;
+        this.cols = cols;
+        this.empty = rows * cols - 1;
+        this.maxNodes = maxNodes;
+        this.weight = weight;
+        this.board = new Int32Array(rows * cols);
+        this.rowConflicts = new Int32Array(rows);
+        this.colConflicts = new Int32Array(cols);
+    }
+
+    // Returns the ids of the tiles to move, in order, or null if the search limit was hit
+    public solve(state: PuzzleState): number[] | null {
+        if (state.getRows() !== this.rows || state.getCols() !== this.cols) {
+            throw new Error('Puzzle size does not match solver');
+        }
+        if (!state.isSolvable()) {
+            return null;
+        }
+
+        this.load(state);
+        this.path = [];
+        this.nodes = 0;
+
+        let bound = this.weight * this.heuristic();
+        while (true) {
+            const result = this.search(0, bound, -1);
+            if (result === FOUND) {
+                return [...this.path];
+            }
+            if (result === Infinity || this.nodes > this.maxNodes) {
+                return null;
+            }
+            bound = result;
+        }
+    }
+
+    private load(state: PuzzleState): void {
+        state.getFlatGrid().forEach((tileId, index) => {
+            this.board[index] = tileId === null ? this.empty : tileId;
+            if (tileId === null) {
+                this.emptyIndex = index;
+            }
+        });
+
+        this.manhattan = 0;
+        for (let index = 0; index < this.board.length; index++) {
+            if (this.board[index] !== this.empty) {
+                this.manhattan += this.tileDistance(this.board[index], index);
+            }
+        }
+
+        this.conflicts = 0;
+        for (let row = 0; row < this.rows; row++) {
+            this.rowConflicts[row] = this.rowConflict(row);
+            this.conflicts += this.rowConflicts[row];
+        }
+        for (let col = 0; col < this.cols; col++) {
+            this.colConflicts[col] = this.colConflict(col);
+            this.conflicts += this.colConflicts[col];
+        }
+    }
+
+    private heuristic(): number {
+        return this.manhattan + this.conflicts;
+    }
+
+    private search(g: number, bound: number, previousEmpty: number): number {
+        this.nodes++;
+        if (this.nodes > this.maxNodes) {
+            return Infinity;
+        }
+
+        const h = this.heuristic();
+        const f = g + this.weight * h;
+        if (f > bound) return f;
+        if (h === 0) return FOUND;
+
+        let min = Infinity;
+        const emptyRow = Math.floor(this.emptyIndex / this.cols);
+        const emptyCol = this.emptyIndex % this.cols;
+        const neighbors = [
+            emptyRow > 0 ? this.emptyIndex - this.cols : -1,
+            emptyRow < this.rows - 1 ? this.emptyIndex + this.cols : -1,
+            emptyCol > 0 ? this.emptyIndex - 1 : -1,
+            emptyCol < this.cols - 1 ? this.emptyIndex + 1 : -1,
+        ];
+
+        for (const from of neighbors) {
+            // Skip off-board cells and the move that would undo the last one
+            if (from < 0 || from === previousEmpty) continue;
+
+            const to = this.emptyIndex;
+            const tileId = this.board[from];
+            const saved = this.applyMove(from, to);
+            this.path.push(tileId);
+
+            const result = this.search(g + 1, bound, to);
+            if (result === FOUND) return FOUND;
+            if (result < min) min = result;
+
+            this.path.pop();
+            this.undoMove(from, to, saved);
+            if (this.nodes > this.maxNodes) return Infinity;
+        }
+
+        return min;
+    }
+
+    // Slide the tile at `from` into the gap at `to`, returning what undoMove needs to restore
+    private applyMove(from: number, to: number): [number, number, number, number] {
+        const tileId = this.board[from];
+        const saved: [number, number, number, number] = [this.manhattan, this.conflicts, 0, 0];
+
+        this.board[to] = tileId;
+        this.board[from] = this.empty;
+        this.emptyIndex = from;
+        this.manhattan += this.tileDistance(tileId, to) - this.tileDistance(tileId, from);
+
+        // A vertical move changes which rows hold the tile, a horizontal one which columns
+        if (Math.abs(from - to) === this.cols) {
+            const rowA = Math.floor(from / this.cols);
+            const rowB = Math.floor(to / this.cols);
+            saved[2] = this.rowConflicts[rowA];
+            saved[3] = this.rowConflicts[rowB];
+            this.rowConflicts[rowA] = this.rowConflict(rowA);
+            this.rowConflicts[rowB] = this.rowConflict(rowB);
+            this.conflicts += this.rowConflicts[rowA] + this.rowConflicts[rowB] - saved[2] - saved[3];
+        } else {
+            const colA = from % this.cols;
+            const colB = to % this.cols;
+            saved[2] = this.colConflicts[colA];
+            saved[3] = this.colConflicts[colB];
+            this.colConflicts[colA] = this.colConflict(colA);
+            this.colConflicts[colB] = this.colConflict(colB);
+            this.conflicts += this.colConflicts[colA] + this.colConflicts[colB] - saved[2] - saved[3];
+        }
+
+        return saved;
+    }
+
+    private undoMove(from: number, to: number, saved: [number, number, number, number]): void {
+        this.board[from] = this.board[to];
+        this.board[to] = this.empty;
+        this.emptyIndex = to;
+        this.manhattan = saved[0];
+        this.conflicts = saved[1];
+
+        if (Math.abs(from - to) === this.cols) {
+            this.rowConflicts[Math.floor(from / this.cols)] = saved[2];
+            this.rowConflicts[Math.floor(to / this.cols)] = saved[3];
+        } else {
+            this.colConflicts[from % this.cols] = saved[2];
+            this.colConflicts[to % this.cols] = saved[3];
+        }
+    }
+
+    private tileDistance(tileId: number, index: number): number {
+        const row = Math.floor(index / this.cols);
+        const col = index % this.cols;
+        const goalRow = Math.floor(tileId / this.cols);
+        const goalCol = tileId % this.cols;
+        return Math.abs(row - goalRow) + Math.abs(col - goalCol);
+    }
+
+    // Extra moves needed for tiles in their goal row but in reversed order
+    private rowConflict(row: number): number {
+        const goals: number[] = [];
+        for (let col = 0; col < this.cols; col++) {
+            const tileId = this.board[row * this.cols + col];
+            if (tileId !== this.empty && Math.floor(tileId / this.cols) === row) {
+                goals.push(tileId % this.cols);
+            }
+        }
+        return PuzzleSolver.lineConflict(goals);
+    }
+
+    // Extra moves needed for tiles in their goal column but in reversed order
+    private colConflict(col: number): number {
+        const goals: number[] = [];
+        for (let row = 0; row < this.rows; row++) {
+            const tileId = this.board[row * this.cols + col];
+            if (tileId !== this.empty && tileId % this.cols === col) {
+                goals.push(Math.floor(tileId / this.cols));
+            }
+        }
+        return PuzzleSolver.lineConflict(goals);
+    }
+
+    // Each tile that has to step out of the line to let the others pass costs two moves.
+    // The tiles that can stay are the longest run already in order, so the rest have to step out.
+    private static lineConflict(goals: number[]): number {
+        // Length of the longest increasing run ending at each tile
+        const lengths: number[] = [];
+        let longest = 0;
+        for (let i = 0; i < goals.length; i++) {
+            lengths[i] = 1;
+            for (let j = 0; j < i; j++) {
+                if (goals[j] < goals[i]) {
+                    lengths[i] = Math.max(lengths[i], lengths[j] + 1);
+                }
+            }
+            longest = Math.max(longest, lengths[i]);
+        }
+        return 2 * (goals.length - longest);
+    }
+}
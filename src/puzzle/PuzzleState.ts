@@ -1,18 +1,92 @@
+import { Random } from '../utils/random';
+import { TypedEventEmitter } from '../utils/events';
+
 // Type for tile IDs (null represents empty slot)
 export type TileId = number | null;
 
-export class PuzzleState {
+// Board dimensions in tiles
+export type GridSize = {
+    rows: number;
+    cols: number;
+};
+
+export const DEFAULT_GRID_SIZE: GridSize = { rows: 3, cols: 3 };
+
+// Direction a tile travels when it slides into the empty slot
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+const DIRECTION_OFFSETS: Record<Direction, [number, number]> = {
+    up: [-1, 0],
+    down: [1, 0],
+    left: [0, -1],
+    right: [0, 1],
+};
+
+// A single tile sliding from one cell into the empty slot
+export type Move = {
+    tileId: number;
+    from: [number, number];
+    to: [number, number];
+};
+
+// Events emitted as the puzzle changes, so views, stats and persistence can follow along
+export type PuzzleStateEvents = {
+    move: Move;
+    undo: Move;
+    redo: Move;
+    // A new game was dealt from a shuffled board
+    shuffle: { grid: TileId[][] };
+    // The board was replaced outright, e.g. restored from a save or reset to solved
+    reset: { grid: TileId[][]; moveCount: number };
+    solved: { moveCount: number };
+};
+
+export class PuzzleState extends TypedEventEmitter<PuzzleStateEvents> {
     private grid: TileId[][];
-    private readonly rows: number = 3;
-    private readonly cols: number = 3;
+    private readonly rows: number;
+    private readonly cols: number;
+    // One entry per player action, with every tile it moved; undo and redo take whole entries
+    private history: Move[][] = [];
+    private redoStack: Move[][] = [];
+    // Moves made before the current history started, e.g. in a restored game
+    private baseMoveCount: number = 0;
+
+    constructor(rows: number = DEFAULT_GRID_SIZE.rows, cols: number = DEFAULT_GRID_SIZE.cols) {
+        if (!Number.isInteger(rows) || !Number.isInteger(cols) || rows < 2 || cols < 2) {
+            throw new Error(`Invalid grid size ${rows}x${cols}`);
+        }
+        super();
+        this.rows = rows;
+        this.cols = cols;
 
-    constructor() {
         // Initialize grid with solved state
-        this.grid = [
-            [0, 1, 2],
-            [3, 4, 5],
-            [6, 7, null]
-        ];
+        this.grid = PuzzleState.createSolvedGrid(rows, cols);
+    }
+
+    // Build a solved grid: tiles in order with the empty slot in the bottom-right corner
+    public static createSolvedGrid(rows: number, cols: number): TileId[][] {
+        const grid: TileId[][] = [];
+        for (let row = 0; row < rows; row++) {
+            const cells: TileId[] = [];
+            for (let col = 0; col < cols; col++) {
+                const index = row * cols + col;
+                cells.push(index === rows * cols - 1 ? null : index);
+            }
+            grid.push(cells);
+        }
+        return grid;
+    }
+
+    public getRows(): number {
+        return this.rows;
+    }
+
+    public getCols(): number {
+        return this.cols;
+    }
+
+    public getSize(): GridSize {
+        return { rows: this.rows, cols: this.cols };
     }
 
     // Convert 1D index to 2D position
@@ -64,18 +138,132 @@ export class PuzzleState {
         return (dx + dy === 1); // Must be exactly one tile away (orthogonally)
     }
 
-    // Move a tile to the empty slot
-    public moveTile(tileRow: number, tileCol: number): void {
-        const [emptyRow, emptyCol] = this.findEmptySlot();
-        
+    // Move a tile to the empty slot, recording it in the move history
+    public moveTile(tileRow: number, tileCol: number): Move | null {
         if (!this.canMove(tileRow, tileCol)) {
-            return;
+            return null;
+        }
+
+        const move = this.swapWithEmpty(tileRow, tileCol);
+        this.history.push([move]);
+        this.redoStack = [];
+        this.emit('move', { ...move });
+        this.emitIfSolved();
+        return move;
+    }
+
+    // Check if a tile shares a row or column with the empty slot, so a run of tiles can slide
+    public canSlide(tileRow: number, tileCol: number): boolean {
+        const [emptyRow, emptyCol] = this.findEmptySlot();
+        if (tileRow === emptyRow && tileCol === emptyCol) return false;
+        return tileRow === emptyRow || tileCol === emptyCol;
+    }
+
+    // Slide every tile between the given tile and the empty slot one cell towards the gap.
+    // Each tile shift counts as a move, nearest the gap first, but the run is a single
+    // history entry so one undo puts it all back.
+    public slideTiles(tileRow: number, tileCol: number): Move[] {
+        if (!this.canSlide(tileRow, tileCol)) {
+            return [];
+        }
+
+        const moves: Move[] = [];
+        let [emptyRow, emptyCol] = this.findEmptySlot();
+        while (emptyRow !== tileRow || emptyCol !== tileCol) {
+            const nextRow = emptyRow + Math.sign(tileRow - emptyRow);
+            const nextCol = emptyCol + Math.sign(tileCol - emptyCol);
+            moves.push(this.swapWithEmpty(nextRow, nextCol));
+            [emptyRow, emptyCol] = [nextRow, nextCol];
+        }
+
+        this.history.push(moves);
+        this.redoStack = [];
+        moves.forEach(move => this.emit('move', { ...move }));
+        this.emitIfSolved();
+        return moves;
+    }
+
+    // Find the tile that would travel in the given direction, i.e. the one on the far side of the gap
+    public findTileForDirection(direction: Direction): [number, number] | null {
+        const [emptyRow, emptyCol] = this.findEmptySlot();
+        const [dRow, dCol] = DIRECTION_OFFSETS[direction];
+        const row = emptyRow - dRow;
+        const col = emptyCol - dCol;
+        if (row < 0 || row >= this.rows || col < 0 || col >= this.cols) {
+            return null;
+        }
+        return [row, col];
+    }
+
+    // Move the tiles of the last move or slide back, returning the moves that were reverted
+    public undo(): Move[] | null {
+        const moves = this.history.pop();
+        if (!moves) return null;
+
+        const reverted = [...moves].reverse();
+        reverted.forEach(move => this.swapWithEmpty(move.to[0], move.to[1]));
+        this.redoStack.push(moves);
+        reverted.forEach(move => this.emit('undo', { ...move }));
+        return reverted;
+    }
+
+    // Replay the last undone move or slide
+    public redo(): Move[] | null {
+        const moves = this.redoStack.pop();
+        if (!moves) return null;
+
+        moves.forEach(move => this.swapWithEmpty(move.from[0], move.from[1]));
+        this.history.push(moves);
+        moves.forEach(move => this.emit('redo', { ...move }));
+        this.emitIfSolved();
+        return moves;
+    }
+
+    public canUndo(): boolean {
+        return this.history.length > 0;
+    }
+
+    public canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    // Moves made since the last shuffle, oldest first, with the tiles of each slide grouped together
+    public getHistory(): Move[][] {
+        return this.history.map(moves => moves.map(move => ({ ...move })));
+    }
+
+    // Every tile shift counts, so a slide of three tiles is three moves
+    public getMoveCount(): number {
+        return this.history.reduce((count, moves) => count + moves.length, this.baseMoveCount);
+    }
+
+    private emitIfSolved(): void {
+        if (this.isSolved()) {
+            this.emit('solved', { moveCount: this.getMoveCount() });
         }
+    }
+
+    // Copy of the board and its history that doesn't share listeners, e.g. for replaying a game
+    public clone(): PuzzleState {
+        const copy = new PuzzleState(this.rows, this.cols);
+        copy.grid = this.getGrid();
+        copy.history = this.getHistory();
+        copy.redoStack = this.redoStack.map(moves => moves.map(move => ({ ...move })));
+        copy.baseMoveCount = this.baseMoveCount;
+        return copy;
+    }
 
-        // Swap in logical grid
+    // Swap in logical grid without touching the history
+    private swapWithEmpty(tileRow: number, tileCol: number): Move {
+        const [emptyRow, emptyCol] = this.findEmptySlot();
         const tileId = this.grid[tileRow][tileCol];
+        if (tileId === null) {
+            throw new Error('Cannot move the empty slot');
+        }
+
         this.grid[emptyRow][emptyCol] = tileId;
         this.grid[tileRow][tileCol] = null;
+        return { tileId, from: [tileRow, tileCol], to: [emptyRow, emptyCol] };
     }
 
     // Check if puzzle is solved
@@ -83,7 +271,7 @@ export class PuzzleState {
         let expected = 0;
         for (let row = 0; row < this.rows; row++) {
             for (let col = 0; col < this.cols; col++) {
-                if (row === 2 && col === 2) {
+                if (row === this.rows - 1 && col === this.cols - 1) {
                     if (this.grid[row][col] !== null) return false;
                 } else {
                     if (this.grid[row][col] !== expected) return false;
@@ -111,14 +299,29 @@ export class PuzzleState {
     }
 
     // Check if the current configuration is solvable
-    private isSolvable(): boolean {
-        // For a 3x3 puzzle, it's solvable if number of inversions is even
-        return this.countInversions() % 2 === 0;
+    public isSolvable(): boolean {
+        const inversions = this.countInversions();
+
+        // With an odd width, horizontal and vertical moves both preserve inversion parity
+        if (this.cols % 2 === 1) {
+            return inversions % 2 === 0;
+        }
+
+        // With an even width, every vertical move flips inversion parity, so the parity
+        // must match how many rows the empty slot is away from its solved row
+        const [emptyRow] = this.findEmptySlot();
+        return (inversions + (this.rows - 1 - emptyRow)) % 2 === 0;
     }
 
-    // Shuffle the puzzle by performing random valid moves
-    public shuffle(times: number = 50): void {
-        // First perform random moves
+    // Shuffle the puzzle by performing random valid moves. Every move keeps the board
+    // solvable, so no parity fix is needed afterwards.
+    public shuffle(random: Random, times: number = 50): void {
+        // A new game starts from the shuffled position
+        this.history = [];
+        this.redoStack = [];
+        this.baseMoveCount = 0;
+
+        let previousEmpty: [number, number] | null = null;
         for (let i = 0; i < times; i++) {
             const [emptyRow, emptyCol] = this.findEmptySlot();
             const neighbors: Array<[number, number]> = [
@@ -129,33 +332,57 @@ export class PuzzleState {
             ].filter(([r, c]) => 
                 r >= 0 && r < this.rows && 
                 c >= 0 && c < this.cols && 
-                this.grid[r][c] !== null
+                // Don't immediately undo the previous move
+                !(previousEmpty && previousEmpty[0] === r && previousEmpty[1] === c)
             );
 
-            if (neighbors.length > 0) {
-                const [targetRow, targetCol] = neighbors[Math.floor(Math.random() * neighbors.length)];
-                this.moveTile(targetRow, targetCol);
-            }
+            const [targetRow, targetCol] = random.pick(neighbors);
+            this.swapWithEmpty(targetRow, targetCol);
+            previousEmpty = [emptyRow, emptyCol];
         }
 
-        // If the resulting configuration is not solvable, make one more move to make it solvable
-        if (!this.isSolvable()) {
-            const [emptyRow, emptyCol] = this.findEmptySlot();
-            const neighbors: Array<[number, number]> = [
-                [emptyRow - 1, emptyCol] as [number, number],
-                [emptyRow + 1, emptyCol] as [number, number],
-                [emptyRow, emptyCol - 1] as [number, number],
-                [emptyRow, emptyCol + 1] as [number, number],
-            ].filter(([r, c]) => 
-                r >= 0 && r < this.rows && 
-                c >= 0 && c < this.cols && 
-                this.grid[r][c] !== null
-            );
+        this.emit('shuffle', { grid: this.getGrid() });
+    }
 
-            if (neighbors.length > 0) {
-                const [targetRow, targetCol] = neighbors[Math.floor(Math.random() * neighbors.length)];
-                this.moveTile(targetRow, targetCol);
-            }
+    // Start a new game from a board that was shuffled elsewhere, e.g. by the puzzle generator
+    public dealShuffled(grid: TileId[][]): void {
+        this.replaceGrid(grid, 0);
+        this.emit('shuffle', { grid: this.getGrid() });
+    }
+
+    // Put every tile back in order and clear the history
+    public reset(): void {
+        this.replaceGrid(PuzzleState.createSolvedGrid(this.rows, this.cols), 0);
+        this.emit('reset', { grid: this.getGrid(), moveCount: 0 });
+    }
+
+    // Replace the board with a given layout, continuing a game that has already taken moveCount moves
+    public setGrid(grid: TileId[][], moveCount: number = 0): void {
+        this.replaceGrid(grid, moveCount);
+        this.emit('reset', { grid: this.getGrid(), moveCount });
+    }
+
+    private replaceGrid(grid: TileId[][], moveCount: number): void {
+        if (grid.length !== this.rows || grid.some(row => row.length !== this.cols)) {
+            throw new Error(`Grid must be ${this.rows}x${this.cols}`);
         }
+
+        // Every tile must appear exactly once alongside a single empty slot
+        const ids = grid.flat().map(id => id === null ? this.rows * this.cols - 1 : id);
+        const seen = new Set(ids);
+        if (seen.size !== ids.length || ids.some(id => !Number.isInteger(id) || id < 0 || id >= ids.length)) {
+            throw new Error('Grid is not a valid arrangement of tiles');
+        }
+
+        const previous = this.grid;
+        this.grid = grid.map(row => [...row]);
+        if (!this.isSolvable()) {
+            this.grid = previous;
+            throw new Error('Grid is not solvable');
+        }
+
+        this.history = [];
+        this.redoStack = [];
+        this.baseMoveCount = moveCount;
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,13 @@
+import { GridSize, TileId } from './PuzzleState';
+import { Solution } from './PuzzleSolver';
+import { Difficulty, GeneratedPuzzle } from './PuzzleGenerator';
+
+// Messages from the main thread to the puzzle worker; the answer to each carries the same id
+export type PuzzleCommand =
+    | { type: 'solve'; id: number; grid: TileId[][] }
+    | { type: 'generate'; id: number; gridSize: GridSize; seed: number; difficulty: Difficulty };
+
+// Messages from the puzzle worker to the main thread
+export type PuzzleEvent =
+    | { type: 'solution'; id: number; solution: Solution | null }
+    | { type: 'puzzle'; id: number; puzzle: GeneratedPuzzle | null };
@@ -0,0 +1,6 @@
+import { PuzzleCommand } from './protocol';
+import { runPuzzleCommand } from './puzzleTasks';
+
+self.onmessage = (e: MessageEvent<PuzzleCommand>) => {
+    self.postMessage(runPuzzleCommand(e.data));
+};
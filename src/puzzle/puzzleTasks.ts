@@ -0,0 +1,23 @@
+import { PuzzleState } from './PuzzleState';
+import { findSolution } from './PuzzleSolver';
+import { generatePuzzle } from './PuzzleGenerator';
+import { PuzzleCommand, PuzzleEvent } from './protocol';
+
+// Carry out one command, in the puzzle worker or on the main thread when there is none
+export function runPuzzleCommand(command: PuzzleCommand): PuzzleEvent {
+    switch (command.type) {
+        case 'solve': {
+            const state = new PuzzleState(command.grid.length, command.grid[0].length);
+            state.setGrid(command.grid);
+            return { type: 'solution', id: command.id, solution: findSolution(state) };
+        }
+        case 'generate':
+            // A failure is answered rather than thrown, which would take the worker down with it
+            try {
+                return { type: 'puzzle', id: command.id, puzzle: generatePuzzle(command.gridSize, command.seed, command.difficulty) };
+            } catch (error) {
+                console.warn('Could not generate puzzle', error);
+                return { type: 'puzzle', id: command.id, puzzle: null };
+            }
+    }
+}
@@ -0,0 +1,30 @@
+export type Listener<T> = (payload: T) => void;
+
+// Minimal event emitter whose event names and payloads are checked by the compiler
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Subscribe to an event, returning a function that unsubscribes
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let listeners = this.listeners[event];
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners[event] = listeners;
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    // Copy so listeners can unsubscribe while being called
+    [...(this.listeners[event] ?? [])].forEach(listener => listener(payload));
+  }
+}
@@ -0,0 +1,41 @@
+// Small seedable PRNG (mulberry32) so shuffles and simulations can be reproduced
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Uniform float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Uniform integer in [0, max)
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  pick<T>(items: T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  // Fresh seed for games that don't need to be shared
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296);
+  }
+}
+
+// FNV-1a hash, used to turn strings like dates into seeds
+export function hashString(value: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,33 @@
+// Pausable elapsed-time counter in milliseconds
+export class Stopwatch {
+  private startedAt: number | null = null;
+  private accumulated: number = 0;
+
+  start(): void {
+    if (this.startedAt === null) {
+      this.startedAt = performance.now();
+    }
+  }
+
+  stop(): void {
+    if (this.startedAt !== null) {
+      this.accumulated += performance.now() - this.startedAt;
+      this.startedAt = null;
+    }
+  }
+
+  // Stop and set the elapsed time, e.g. when restoring a saved game
+  reset(elapsed: number = 0): void {
+    this.startedAt = null;
+    this.accumulated = elapsed;
+  }
+
+  isRunning(): boolean {
+    return this.startedAt !== null;
+  }
+
+  getElapsed(): number {
+    const running = this.startedAt !== null ? performance.now() - this.startedAt : 0;
+    return this.accumulated + running;
+  }
+}
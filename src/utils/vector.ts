@@ -1,4 +1,5 @@
 import * as PIXI from 'pixi.js';
+import { Random } from './random';
 
 export class Vector {
   constructor(public x: number, public y: number) {}
@@ -62,8 +63,9 @@ export class Vector {
     return Math.sqrt(dx * dx + dy * dy);
   }
 
-  static random2D(): Vector {
-    const angle = Math.random() * Math.PI * 2;
+  // Unit vector in a random direction, reproducible when given a seeded generator
+  static random2D(random?: Random): Vector {
+    const angle = (random ? random.next() : Math.random()) * Math.PI * 2;
     return new Vector(Math.cos(angle), Math.sin(angle));
   }
 